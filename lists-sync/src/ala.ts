@@ -0,0 +1,747 @@
+import { openAsBlob } from 'fs';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { setTimeout as sleep } from 'timers/promises';
+
+import {
+  AlaClientSettings,
+  EnvironmentName,
+  ListsEnvironment,
+  getAlaClientSettings,
+  getEnvironment,
+} from './config.js';
+
+export interface SpeciesListResponse {
+  id: string;
+  dataResourceUid: string;
+  title: string;
+  version: number;
+  rowCount: number;
+}
+
+export interface UploadResponse {
+  localFile: string;
+  rowCount: number;
+  fieldList: string[];
+  originalFieldNames: string[];
+  validationErrors: string[] | null;
+}
+
+export interface ProgressResponse {
+  id: string;
+  speciesListID: string;
+  completed: boolean;
+  rowCount: number;
+  mongoTotal: number;
+  elasticTotal: number;
+  started: number;
+}
+
+// A row of a species list, with the taxon ALA's name matching resolved it to
+export interface SpeciesListItem {
+  id: string;
+  scientificName: string;
+  classification?: {
+    scientificName?: string;
+    taxonConceptID?: string;
+    rank?: string;
+    matchType?: string;
+  };
+}
+
+// List details that can be changed without uploading a new file
+export interface SpeciesListMetadata {
+  title?: string;
+  description?: string;
+  licence?: string;
+  authority?: string;
+  region?: string;
+  listType?: string;
+  isPrivate?: boolean;
+  tags?: string[];
+}
+
+interface OAuth2TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope: string;
+}
+
+interface CachedToken {
+  access_token: string;
+  expires_at: number;
+}
+
+interface CircuitState {
+  // Consecutive requests that failed after all their retries
+  failures: number;
+  // While in the future, requests fail fast without reaching ALA
+  openUntil: number;
+}
+
+export type CircuitEvent = 'opened' | 'closed';
+
+export interface CircuitDetail {
+  error?: string;
+  retryAt?: number;
+}
+
+export type CircuitListener = (
+  environment: EnvironmentName,
+  event: CircuitEvent,
+  detail: CircuitDetail
+) => void | Promise<void>;
+
+export interface AlaListsClientConfig extends AlaClientSettings {
+  name: EnvironmentName;
+  apiEndpoint: string;
+  // OAuth2 token endpoint and client credentials
+  authUrl: string;
+  scopes: string;
+  clientId: string;
+  clientSecret: string;
+  // Ingestion progress checks before giving up, ~40 minutes at 5 second intervals
+  maxProgressAttempts?: number;
+  // Called when the circuit breaker opens or closes
+  onCircuitChange?: (
+    event: CircuitEvent,
+    detail: CircuitDetail
+  ) => void | Promise<void>;
+}
+
+export interface AlaRequestOptions {
+  // Retries after the first attempt, defaults to the client's maxRetries
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]';
+type ResponseShape = Record<string, FieldType | `${FieldType}?`>;
+
+export class AlaUnavailableError extends Error {
+  constructor(public environment: EnvironmentName, public retryAt: number) {
+    super(
+      `ALA Lists (${environment}) is unavailable, requests are paused until ${new Date(
+        retryAt
+      ).toISOString()}`
+    );
+    this.name = 'AlaUnavailableError';
+  }
+}
+
+export class AlaRequestError extends Error {
+  constructor(
+    action: string,
+    public status: number,
+    statusText: string,
+    public body: string
+  ) {
+    super(
+      `Failed to ${action}: ${status} ${statusText}${
+        body ? `. Response: ${body}` : ''
+      }`
+    );
+    this.name = 'AlaRequestError';
+  }
+}
+
+export class AlaResponseError extends Error {
+  constructor(description: string, problem: string) {
+    super(`Unexpected ${description} from ALA Lists: ${problem}`);
+    this.name = 'AlaResponseError';
+  }
+}
+
+// Configuration constants
+const MAX_RETRY_DELAY = 60000; // 1 minute, longer Retry-After waits are capped
+const MAX_PROGRESS_ATTEMPTS = 500;
+const TOKEN_EXPIRY_BUFFER = 5 * 60 * 1000; // 5 minutes
+
+const SPECIES_LIST_SHAPE: ResponseShape = {
+  id: 'string',
+  dataResourceUid: 'string',
+  title: 'string',
+  version: 'number',
+  rowCount: 'number',
+};
+
+const UPLOAD_SHAPE: ResponseShape = {
+  localFile: 'string',
+  rowCount: 'number',
+  fieldList: 'string[]',
+  originalFieldNames: 'string[]',
+  validationErrors: 'string[]?',
+};
+
+const PROGRESS_SHAPE: ResponseShape = {
+  completed: 'boolean',
+  rowCount: 'number',
+  mongoTotal: 'number',
+  elasticTotal: 'number',
+  started: 'number',
+};
+
+const LIST_ITEM_SHAPE: ResponseShape = {
+  id: 'string',
+  scientificName: 'string',
+};
+
+const TOKEN_SHAPE: ResponseShape = {
+  access_token: 'string',
+  expires_in: 'number',
+};
+
+// Helper function to check a response has the fields we rely on, so an API
+// change fails loudly instead of passing undefined values along
+function validateResponse<T>(
+  data: unknown,
+  shape: ResponseShape,
+  description: string
+): T {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new AlaResponseError(description, 'expected a JSON object');
+  }
+
+  for (const [key, type] of Object.entries(shape)) {
+    const value = (data as Record<string, unknown>)[key];
+    const expected = type.replace('?', '');
+
+    if (value === undefined || value === null) {
+      if (type.endsWith('?')) continue;
+      throw new AlaResponseError(description, `\`${key}\` is missing`);
+    }
+
+    const valid =
+      expected === 'string[]'
+        ? Array.isArray(value) &&
+          value.every((item) => typeof item === 'string')
+        : typeof value === expected;
+    if (!valid) {
+      throw new AlaResponseError(
+        description,
+        `\`${key}\` should be a ${expected}`
+      );
+    }
+  }
+
+  return data as T;
+}
+
+// Helper function to read a JSON response body, reporting non-JSON bodies
+async function readJson(response: Response, description: string) {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AlaResponseError(
+      description,
+      `invalid JSON: ${text.slice(0, 200)}`
+    );
+  }
+}
+
+// Helper function to throw a descriptive error for a failed response
+async function expectOk(response: Response, action: string): Promise<void> {
+  if (!response.ok) {
+    throw new AlaRequestError(
+      action,
+      response.status,
+      response.statusText,
+      await response.text()
+    );
+  }
+}
+
+// Helper function to tell whether a response is worth retrying
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Client for the ALA Lists API in a single environment. Requests are
+ * authenticated with client credentials and retried on rate limits, server
+ * errors and network failures, and a circuit breaker fails requests fast
+ * while ALA keeps failing.
+ */
+export class AlaListsClient {
+  private cachedToken: CachedToken | null = null;
+  private circuit: CircuitState = { failures: 0, openUntil: 0 };
+
+  constructor(private config: AlaListsClientConfig) {}
+
+  get environment(): EnvironmentName {
+    return this.config.name;
+  }
+
+  /**
+   * Checks whether requests are allowed. Once the cooldown has passed
+   * requests are let through again to test whether ALA is back.
+   */
+  isAvailable(): boolean {
+    return this.circuit.openUntil <= Date.now();
+  }
+
+  // Helper function to get when a paused client takes requests again
+  getRetryTime(): number | null {
+    return this.isAvailable() ? null : this.circuit.openUntil;
+  }
+
+  /**
+   * Fetches a species list's details
+   */
+  async getSpeciesList(dataResourceUid: string): Promise<SpeciesListResponse> {
+    console.log(
+      `Fetching species list info for dataResourceUid: ${dataResourceUid}`
+    );
+
+    const response = await this.request(`/v2/speciesList/${dataResourceUid}`, {
+      method: 'GET',
+      headers: { accept: 'application/json' },
+    });
+    await expectOk(response, `fetch species list (${dataResourceUid})`);
+
+    return validateResponse(
+      await readJson(response, 'species list'),
+      SPECIES_LIST_SHAPE,
+      'species list'
+    );
+  }
+
+  /**
+   * Uploads a ZIP file holding a CSV without ingesting it, returning ALA's
+   * view of the file (row count, fields and validation errors)
+   */
+  async upload(zipPath: string): Promise<UploadResponse> {
+    // The file is read from disk as the request is sent, and again on retries
+    const form = new FormData();
+    form.append(
+      'file',
+      await openAsBlob(zipPath, { type: 'application/zip' }),
+      `${Date.now()}.zip`
+    );
+
+    const response = await this.request('/v2/upload', {
+      method: 'POST',
+      body: form,
+    });
+    await expectOk(response, 'upload file');
+
+    return validateResponse(
+      await readJson(response, 'upload response'),
+      UPLOAD_SHAPE,
+      'upload response'
+    );
+  }
+
+  /**
+   * Starts ingesting an uploaded file into a species list, replacing its rows
+   */
+  async ingest(speciesListID: string, localFile: string): Promise<void> {
+    console.log(
+      `Starting ingestion of file: ${localFile} into list: ${speciesListID}`
+    );
+
+    const form = new FormData();
+    form.append('file', localFile);
+
+    // Not retried: a timeout or dropped connection after ALA accepted the
+    // request would start a second ingestion of the same list
+    const response = await this.request(
+      `/v2/ingest/${speciesListID}`,
+      { method: 'POST', body: form },
+      { retries: 0 }
+    );
+    await expectOk(response, 'ingest file');
+
+    console.log('File ingestion started successfully');
+  }
+
+  /**
+   * Fetches the progress of a species list's ingestion
+   */
+  async getIngestProgress(
+    speciesListID: string,
+    options: AlaRequestOptions = {}
+  ): Promise<ProgressResponse> {
+    const response = await this.request(
+      `/v2/ingest/${speciesListID}/progress`,
+      { method: 'GET' },
+      options
+    );
+    await expectOk(response, 'check ingestion progress');
+
+    return validateResponse(
+      await readJson(response, 'ingestion progress'),
+      PROGRESS_SHAPE,
+      'ingestion progress'
+    );
+  }
+
+  /**
+   * Monitors the progress of file ingestion until completion, passing each
+   * progress check to `onProgress`, and returns the final progress
+   */
+  async waitForIngestion(
+    speciesListID: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: ProgressResponse) => Promise<void> | void
+  ): Promise<ProgressResponse> {
+    const interval = this.config.progressInterval;
+    const maxAttempts =
+      this.config.maxProgressAttempts ?? MAX_PROGRESS_ATTEMPTS;
+    const maxWaitSeconds = (maxAttempts * interval) / 1000;
+
+    console.log(`Monitoring ingestion progress for list: ${speciesListID}`);
+    console.log(
+      `Will check every ${interval / 1000}s for up to ${
+        maxWaitSeconds / 60
+      } minutes`
+    );
+
+    let completed = false;
+    let attempts = 0;
+    let progress: ProgressResponse | undefined;
+
+    while (!completed && attempts < maxAttempts) {
+      await sleep(interval, undefined, { signal });
+      attempts++;
+
+      // Failed checks are simply tried again on the next interval
+      try {
+        const progressData = await this.getIngestProgress(speciesListID, {
+          retries: 0,
+        });
+        progress = progressData;
+        completed = progressData.completed;
+
+        const elapsed = Math.round((Date.now() - progressData.started) / 1000);
+        console.log(
+          `Progress check ${attempts}/${maxAttempts}: completed = ${completed} ` +
+            `(${progressData.mongoTotal}/${progressData.rowCount} processed, ${elapsed}s elapsed)`
+        );
+        await onProgress?.(progressData);
+      } catch (error) {
+        console.warn(`Progress check ${attempts} failed with error:`, error);
+      }
+    }
+
+    if (!completed || !progress) {
+      throw new Error(
+        `File processing did not complete within ${maxWaitSeconds} seconds (${attempts} attempts)`
+      );
+    }
+
+    console.log(`✅ Ingestion completed successfully after ${attempts} checks`);
+    return progress;
+  }
+
+  /**
+   * Gets a page of a species list's rows, numbered from 1
+   */
+  async getListItems(
+    speciesListID: string,
+    page: number,
+    pageSize: number
+  ): Promise<SpeciesListItem[]> {
+    const response = await this.request(
+      `/v2/speciesListItems/${speciesListID}?page=${page}&pageSize=${pageSize}`,
+      { method: 'GET', headers: { accept: 'application/json' } }
+    );
+    await expectOk(response, `fetch species list items (${speciesListID})`);
+
+    const items = await readJson(response, 'species list items');
+    if (!Array.isArray(items)) {
+      throw new AlaResponseError('species list items', 'expected a JSON array');
+    }
+    return items.map((item) =>
+      validateResponse<SpeciesListItem>(
+        item,
+        LIST_ITEM_SHAPE,
+        'species list item'
+      )
+    );
+  }
+
+  /**
+   * Updates a species list's details, keeping any that aren't given
+   */
+  async updateListMetadata(
+    dataResourceUid: string,
+    changes: SpeciesListMetadata
+  ): Promise<SpeciesListResponse> {
+    const list = await this.getSpeciesList(dataResourceUid);
+
+    const response = await this.request(`/v2/speciesList/${list.id}`, {
+      method: 'PUT',
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({ ...list, ...changes }),
+    });
+    await expectOk(response, `update species list (${dataResourceUid})`);
+
+    return validateResponse(
+      await readJson(response, 'species list'),
+      SPECIES_LIST_SHAPE,
+      'species list'
+    );
+  }
+
+  /**
+   * Downloads the rows ALA holds for a species list as a CSV stream
+   */
+  async downloadList(speciesListID: string): Promise<Readable> {
+    const response = await this.request(`/v2/download/${speciesListID}`, {
+      method: 'GET',
+      headers: { accept: 'text/csv' },
+    });
+    await expectOk(response, `download species list (${speciesListID})`);
+
+    if (!response.body) {
+      throw new AlaResponseError('list download', 'the response was empty');
+    }
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  /**
+   * Gets a valid access token, either from cache or by fetching a new one
+   */
+  private async getAccessToken(): Promise<string> {
+    const now = Date.now();
+    if (
+      this.cachedToken &&
+      now < this.cachedToken.expires_at - TOKEN_EXPIRY_BUFFER
+    ) {
+      console.log('Using cached access token');
+      return this.cachedToken.access_token;
+    }
+
+    console.log(`Fetching new M2M access token for ${this.config.name}...`);
+
+    // Fetch a new token using client credentials flow
+    const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
+    const base64Credentials = Buffer.from(credentials).toString('base64');
+
+    const response = await fetch(this.config.authUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${base64Credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        scope: this.config.scopes,
+      }),
+    });
+    await expectOk(response, 'fetch access token');
+
+    const tokenData = validateResponse<OAuth2TokenResponse>(
+      await readJson(response, 'access token'),
+      TOKEN_SHAPE,
+      'access token'
+    );
+
+    this.cachedToken = {
+      access_token: tokenData.access_token,
+      expires_at: now + tokenData.expires_in * 1000, // Convert to milliseconds
+    };
+
+    console.log(
+      `✅ New access token acquired, expires in ${tokenData.expires_in} seconds`
+    );
+
+    return tokenData.access_token;
+  }
+
+  /**
+   * Makes an authenticated request to the API. Rate limits, server errors and
+   * network failures are retried with backoff, and a 401 from an expired
+   * token is retried once with a fresh token. While the circuit breaker is
+   * open, requests fail fast with an AlaUnavailableError.
+   *
+   * @returns The final response, which may still be an error response
+   */
+  private async request(
+    path: string,
+    init: RequestInit,
+    options: AlaRequestOptions = {}
+  ): Promise<Response> {
+    const retryAt = this.getRetryTime();
+    if (retryAt) {
+      throw new AlaUnavailableError(this.config.name, retryAt);
+    }
+
+    const url = `${this.config.apiEndpoint}${path}`;
+    const retries = options.retries ?? this.config.maxRetries;
+    let refreshedToken = false;
+    let attempt = 0;
+
+    while (true) {
+      let response: Response | undefined;
+      let failure: unknown;
+
+      try {
+        const accessToken = await this.getAccessToken();
+        response = await fetch(url, {
+          ...init,
+          headers: {
+            ...(init.headers as Record<string, string>),
+            authorization: `Bearer ${accessToken}`,
+          },
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        failure = error;
+      }
+
+      // The cached token can be revoked or expire early, so fetch a new one
+      if (response?.status === 401 && !refreshedToken) {
+        console.warn(`ALA rejected the access token, refreshing it...`);
+        refreshedToken = true;
+        this.cachedToken = null;
+        await response.body?.cancel();
+        continue;
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        this.recordSuccess();
+        return response;
+      }
+
+      const reason = response
+        ? `${response.status} ${response.statusText}`
+        : String(failure);
+      if (attempt >= retries) {
+        this.recordFailure(reason);
+        if (response) return response;
+        throw failure;
+      }
+
+      const delay = this.getRetryDelay(attempt, response);
+      attempt++;
+      console.warn(
+        `ALA request ${url} failed (attempt ${attempt}/${
+          retries + 1
+        }), retrying in ${delay}ms: ${reason}`
+      );
+      await response?.body?.cancel();
+      await sleep(delay, undefined, { signal: options.signal });
+    }
+  }
+
+  // Helper function to work out how long to wait before the next attempt,
+  // preferring the server's Retry-After over exponential backoff with jitter
+  private getRetryDelay(attempt: number, response?: Response): number {
+    const retryAfter = response?.headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? Date.parse(retryAfter) - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+      }
+    }
+
+    const backoff = Math.min(
+      this.config.retryBaseDelay * 2 ** attempt,
+      MAX_RETRY_DELAY
+    );
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  private recordSuccess() {
+    const wasOpen = this.circuit.openUntil > 0;
+    this.circuit = { failures: 0, openUntil: 0 };
+
+    if (wasOpen) {
+      console.log(`✅ ALA Lists (${this.config.name}) is responding again`);
+      this.notifyCircuitChange('closed', {});
+    }
+  }
+
+  private recordFailure(error: string) {
+    this.circuit.failures++;
+    if (this.circuit.failures < this.config.circuitFailureThreshold) return;
+
+    // A failed test request after the cooldown keeps the circuit open quietly
+    const alreadyOpen = this.circuit.openUntil > 0;
+    this.circuit.openUntil = Date.now() + this.config.circuitCooldown;
+    console.warn(
+      `🔌 ALA Lists (${this.config.name}) failed ${
+        this.circuit.failures
+      } requests in a row, pausing requests for ${
+        this.config.circuitCooldown / 1000
+      }s`
+    );
+    if (!alreadyOpen) {
+      this.notifyCircuitChange('opened', {
+        error,
+        retryAt: this.circuit.openUntil,
+      });
+    }
+  }
+
+  private notifyCircuitChange(event: CircuitEvent, detail: CircuitDetail) {
+    Promise.resolve(this.config.onCircuitChange?.(event, detail)).catch(
+      (error) => console.error(`Circuit ${event} listener failed:`, error)
+    );
+  }
+}
+
+// Clients for the configured environments, so tokens and circuit breakers
+// are shared by every caller
+const clients = new WeakMap<ListsEnvironment, AlaListsClient>();
+const circuitListeners: CircuitListener[] = [];
+
+/**
+ * Gets the shared client for an environment
+ */
+export function getAlaClient(environment: ListsEnvironment): AlaListsClient {
+  let client = clients.get(environment);
+  if (!client) {
+    client = new AlaListsClient({
+      ...environment,
+      ...getAlaClientSettings(),
+      onCircuitChange: async (event, detail) => {
+        for (const listener of circuitListeners) {
+          await listener(environment.name, event, detail);
+        }
+      },
+    });
+    clients.set(environment, client);
+  }
+  return client;
+}
+
+/**
+ * Registers a listener called when an environment's circuit breaker opens
+ * because ALA keeps failing, and when a request succeeds again
+ */
+export function onCircuitChange(listener: CircuitListener): void {
+  circuitListeners.push(listener);
+}
+
+// Helper function to check whether requests to an environment are allowed
+export function isAlaAvailable(environment: EnvironmentName): boolean {
+  return getAlaClient(getEnvironment(environment)).isAvailable();
+}
+
+// Helper function to get when a paused environment takes requests again
+export function getAlaRetryTime(environment: EnvironmentName): number | null {
+  return getAlaClient(getEnvironment(environment)).getRetryTime();
+}
+
+// Helper function to tell whether an error came from ALA being down or
+// unreachable, rather than from the file or the request itself
+export function isAlaOutageError(error: unknown): boolean {
+  return (
+    error instanceof AlaUnavailableError ||
+    (error instanceof AlaRequestError && isRetryableStatus(error.status)) ||
+    // fetch reports network failures, e.g. a refused connection, this way
+    (error instanceof TypeError && error.message === 'fetch failed')
+  );
+}
@@ -0,0 +1,784 @@
+import { EmitterWebhookEvent, Webhooks } from '@octokit/webhooks';
+import { timingSafeEqual } from 'crypto';
+import dotenv from 'dotenv';
+import express from 'express';
+
+import {
+  DataResourceMap,
+  findLatestFileForList,
+  formatDrMapChanges,
+  getParentFolderName,
+  isImportedGoogleSheetsFile,
+  loadDrMap,
+  selectLatestFilesByList,
+} from './github.js';
+import {
+  AuditAction,
+  formatAuditCsv,
+  queryAuditLog,
+  recordAuditEntry,
+} from './audit.js';
+import {
+  EnvironmentName,
+  getAlaListLink,
+  getEnvironment,
+  getEnvironments,
+} from './config.js';
+import {
+  DataResourceConfig,
+  DrsLoadResult,
+  formatDrsIssues,
+  getDataResourceConfig,
+  setDataResourceConfig,
+} from './drs.js';
+import {
+  WebhookDelivery,
+  finishDelivery,
+  getDelivery,
+  listDeliveries,
+  loadDeliveries,
+  readDeliveryPayload,
+  startDelivery,
+} from './deliveries.js';
+import { checkDrift } from './drift.js';
+import { enqueueReload, findJobsForDelivery, resumeJobs } from './jobs.js';
+import { getPin, loadPins } from './pins.js';
+import { dryRunReload } from './preview.js';
+import {
+  getServiceStatus,
+  renderStatusPage,
+  withoutErrorDetails,
+} from './status.js';
+import {
+  createMessageBlocks,
+  receiver,
+  sendSlackNotification,
+  setDrMap,
+} from './slack.js';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize drMap variable
+let drMap: DataResourceMap = {
+  prod: {},
+  test: {},
+};
+
+export const app: express.Express = express();
+
+// Initialize GitHub Webhooks
+const webhooks = new Webhooks({
+  secret: process.env.GITHUB_WEBHOOK_SECRET!,
+});
+
+// Helper function to make a loaded drs.json the active configuration
+function applyDrsConfig(result: DrsLoadResult) {
+  drMap = result.drMap;
+  setDataResourceConfig(result.config);
+  setDrMap(drMap); // Update Slack module with new drMap
+}
+
+// Helper function to get the environments a list is synced to on push
+function getPushEnvironments(listName: string) {
+  return getEnvironments().filter(
+    (environment) => environment.syncOnPush && drMap[environment.name][listName]
+  );
+}
+
+// Helper function to queue a list reload from a file in a push, once for
+// every environment the list is synced to
+async function queueListReload(
+  owner: string,
+  repo: string,
+  commitSha: string,
+  filePath: string,
+  title: string,
+  message: string,
+  deliveryId?: string,
+  pushedBy?: string
+): Promise<void> {
+  const parentFolderName = getParentFolderName(filePath);
+  if (!parentFolderName) {
+    return;
+  }
+
+  for (const environment of getPushEnvironments(parentFolderName)) {
+    const dataResourceUid = drMap[environment.name][parentFolderName];
+
+    // Generate GitHub and ALA links
+    const gitHubLink = `https://github.com/${process.env
+      .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${parentFolderName}`;
+    const alaLink = getAlaListLink(environment, dataResourceUid);
+
+    // A rolled back list stays on its pinned file until someone unpins it
+    const pin = getPin(environment.name, parentFolderName);
+    if (pin && pin.path !== filePath) {
+      console.log(
+        `📌 Skipping ${parentFolderName} (${environment.name}), pinned to ${pin.path}`
+      );
+      await sendSlackNotification(
+        createMessageBlocks(
+          `List pinned: ${parentFolderName} (${environment.name})`,
+          [
+            message,
+            `📌  List is pinned to \`${pin.path.split('/').pop()}\` by <@${
+              pin.pinnedBy
+            }>, the new file was *not* loaded into ALA.`,
+            `Run \`/reload ${parentFolderName} --env=${environment.name}\` to unpin and load the latest file.`,
+          ],
+          gitHubLink,
+          alaLink
+        )()
+      );
+      continue;
+    }
+
+    await enqueueReload({
+      listName: parentFolderName,
+      dataResourceUid,
+      environment: environment.name,
+      owner,
+      repo,
+      path: filePath,
+      ref: commitSha,
+      title: `${title}: ${parentFolderName} (${environment.name})`,
+      messages: [message],
+      gitHubLink,
+      alaLink,
+      deliveryId,
+      trigger: { source: 'push', pushedBy },
+    });
+  }
+}
+
+// Helper function to reload a list when its latest file was modified or removed
+async function processChangedList(
+  owner: string,
+  repo: string,
+  commitSha: string,
+  listName: string,
+  modifiedFile?: string,
+  removedFile?: string,
+  deliveryId?: string,
+  pushedBy?: string
+): Promise<void> {
+  let latestFile;
+  try {
+    latestFile = await findLatestFileForList(listName, commitSha);
+  } catch (error) {
+    // Without the file list we can't tell a removal from a lookup failure
+    if (getPushEnvironments(listName).length > 0) {
+      await sendSlackNotification(
+        createMessageBlocks(`List push: ${listName}`, [
+          `⚠️  Files for *${listName}* changed, but the list's files could not be read from GitHub, so nothing was reloaded.`,
+          `*Error:* ${(error as Error).message}`,
+        ])()
+      );
+    }
+    throw error;
+  }
+
+  // An overwritten latest file needs to be reloaded with its new content
+  if (latestFile && modifiedFile === latestFile.path) {
+    console.log(`Latest file for ${listName} was modified: ${modifiedFile}`);
+    await queueListReload(
+      owner,
+      repo,
+      commitSha,
+      latestFile.path,
+      'List push',
+      `✏️  Modified file \`${latestFile.name}\`, queued for processing...`,
+      deliveryId,
+      pushedBy
+    );
+    return;
+  }
+
+  // Only removing the newest file changes what ALA should hold
+  if (
+    !removedFile ||
+    (latestFile && removedFile.localeCompare(latestFile.path) < 0)
+  ) {
+    return;
+  }
+
+  const removedName = removedFile.split('/').pop();
+  if (getPushEnvironments(listName).length === 0) {
+    return;
+  }
+
+  if (!latestFile) {
+    console.log(`All files for ${listName} were removed, nothing to roll back`);
+    await sendSlackNotification(
+      createMessageBlocks(`List removed: ${listName}`, [
+        `🗑️  Latest file \`${removedName}\` was removed and no earlier files remain.`,
+        `ALA still holds the data from this file, remove the list in ALA or push a new file.`,
+      ])()
+    );
+    return;
+  }
+
+  console.log(`Rolling ${listName} back to ${latestFile.path}`);
+  await queueListReload(
+    owner,
+    repo,
+    commitSha,
+    latestFile.path,
+    'List rollback',
+    `🗑️  Latest file \`${removedName}\` was removed, rolling ALA back to \`${latestFile.name}\`...`,
+    deliveryId,
+    pushedBy
+  );
+}
+
+// Helper function to record each list added, removed or changed by a
+// drs.json push in the audit log
+async function auditDrsChanges(
+  oldConfig: DataResourceConfig,
+  newConfig: DataResourceConfig,
+  commitSha: string,
+  pushedBy?: string
+): Promise<void> {
+  for (const environment of ['prod', 'test'] as EnvironmentName[]) {
+    const before = oldConfig[environment];
+    const after = newConfig[environment];
+
+    for (const listName of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      const oldEntry = before[listName];
+      const newEntry = after[listName];
+      if (JSON.stringify(oldEntry) === JSON.stringify(newEntry)) continue;
+
+      await recordAuditEntry({
+        action: 'drs_change',
+        actorType: 'github',
+        actor: pushedBy || 'unknown',
+        listName,
+        environment,
+        dataResourceUid: (newEntry ?? oldEntry).uid,
+        path: 'drs.json',
+        ref: commitSha,
+        outcome: !oldEntry ? 'added' : !newEntry ? 'removed' : 'changed',
+        details:
+          oldEntry && newEntry
+            ? `${JSON.stringify(oldEntry)} → ${JSON.stringify(newEntry)}`
+            : undefined,
+      });
+    }
+  }
+}
+
+// Handle push events (commits)
+webhooks.on('push', async ({ id, payload }) => {
+  const pushEvent = payload;
+
+  console.log(`Received push event for ${pushEvent.repository.full_name}`);
+
+  // Only process pushes to the main branch
+  const branch = pushEvent.ref.replace('refs/heads/', '');
+  if (branch !== 'main') {
+    console.log(
+      `Ignoring push to branch '${branch}' - only processing 'main' branch`
+    );
+    return;
+  }
+
+  console.log(`Processing push to main branch`);
+
+  // Extract owner and repo from the repository full_name
+  const [owner, repo] = pushEvent.repository.full_name.split('/');
+  const commitSha = pushEvent.head_commit?.id || pushEvent.after;
+  const pushedBy = pushEvent.pusher?.name;
+
+  // Collect all changed files from all commits
+  const allAdded: string[] = [];
+  const allModified: string[] = [];
+  const allRemoved: string[] = [];
+
+  pushEvent.commits.forEach((commit) => {
+    allAdded.push(...(commit.added || []));
+    allModified.push(...(commit.modified || []));
+    allRemoved.push(...(commit.removed || []));
+  });
+
+  // Check if drs.json was modified
+  const drJsonModified =
+    allModified.includes('drs.json') || allAdded.includes('drs.json');
+
+  // Failures are reported once everything else is processed, so the
+  // delivery is recorded as failed and can be replayed
+  const failures: string[] = [];
+
+  if (drJsonModified) {
+    console.log('drs.json was modified, updating drMap...');
+    const updateBlocks = createMessageBlocks('DRs configuration updated');
+
+    try {
+      const oldConfig = getDataResourceConfig();
+      const result = await loadDrMap(owner, repo, commitSha);
+      applyDrsConfig(result);
+      await auditDrsChanges(oldConfig, result.config, commitSha, pushedBy);
+
+      // Send Slack notification about drMap changes
+      const messages = formatDrMapChanges(oldConfig, result.config);
+      if (result.issues.length > 0) {
+        messages.push(
+          '',
+          `🩺  *Problems in drs.json*, affected lists are skipped until fixed`,
+          ...formatDrsIssues(result.issues)
+        );
+      }
+      await sendSlackNotification(updateBlocks(messages));
+    } catch (error) {
+      console.error('Failed to update drMap after drs.json change:', error);
+      failures.push('drs.json');
+      await recordAuditEntry({
+        action: 'drs_change',
+        actorType: 'github',
+        actor: pushedBy || 'unknown',
+        path: 'drs.json',
+        ref: commitSha,
+        outcome: 'failed',
+        details: String(error),
+      });
+      await sendSlackNotification(
+        updateBlocks([
+          `❌  *Error updating DRS configuration*`,
+          `Failed to load updated drs.json: ${error}`,
+        ])
+      );
+    }
+  }
+
+  // Handle imported_GoogleSheets file additions, using only the newest
+  // timestamped file for each list
+  const latestAddedFiles = selectLatestFilesByList(
+    allAdded.filter(isImportedGoogleSheetsFile)
+  );
+
+  for (const addedFile of latestAddedFiles.values()) {
+    console.log(`Processing new file in imported_GoogleSheets: ${addedFile}`);
+    try {
+      await queueListReload(
+        owner,
+        repo,
+        commitSha,
+        addedFile,
+        'List push',
+        `📁  Pushed file \`${addedFile
+          .split('/')
+          .pop()}\`, queued for processing...`,
+        id,
+        pushedBy
+      );
+    } catch (error) {
+      console.error(`Failed to queue reload for ${addedFile}:`, error);
+      failures.push(addedFile);
+    }
+  }
+
+  // Handle modified and removed files for lists without new files
+  const modifiedFiles = selectLatestFilesByList(
+    allModified.filter(isImportedGoogleSheetsFile)
+  );
+  const removedFiles = selectLatestFilesByList(
+    allRemoved.filter(isImportedGoogleSheetsFile)
+  );
+  const changedLists = new Set([
+    ...modifiedFiles.keys(),
+    ...removedFiles.keys(),
+  ]);
+
+  for (const listName of changedLists) {
+    if (latestAddedFiles.has(listName)) continue;
+
+    try {
+      await processChangedList(
+        owner,
+        repo,
+        commitSha,
+        listName,
+        modifiedFiles.get(listName),
+        removedFiles.get(listName),
+        id,
+        pushedBy
+      );
+    } catch (error) {
+      console.error(`Failed to process changes to ${listName}:`, error);
+      failures.push(listName);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to process ${failures.join(', ')}`);
+  }
+});
+
+// Health check endpoint
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    service: 'arga-lists-sync',
+  });
+});
+
+// Helper function to check a request carries the admin bearer token
+function hasAdminToken(req: express.Request): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) return false;
+
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  const received = Buffer.from(req.headers.authorization || '');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+// Helper middleware to protect admin endpoints with a bearer token
+function requireAdminToken(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  if (!process.env.ADMIN_API_TOKEN) {
+    res.status(404).json({ error: 'Admin API is not enabled' });
+    return;
+  }
+
+  if (!hasAdminToken(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
+
+// Status of every list, as JSON or as an HTML page for browsers. Anyone can
+// read it, but refreshing it and seeing error details need the admin token
+app.get('/status', async (req, res) => {
+  const isAdmin = hasAdminToken(req);
+  const refresh = req.query.refresh === 'true';
+  if (refresh && !isAdmin) {
+    res.status(401).json({ error: 'Refreshing needs the admin token' });
+    return;
+  }
+
+  const fullStatus = await getServiceStatus(refresh);
+  const status = isAdmin ? fullStatus : withoutErrorDetails(fullStatus);
+
+  res.format({
+    'application/json': () => res.json(status),
+    'text/html': () => res.send(renderStatusPage(status)),
+  });
+});
+
+// Dry run endpoint, validates and previews a list file without reloading it
+app.post(
+  '/admin/lists/:listName/dry-run',
+  requireAdminToken,
+  async (req, res) => {
+    const { listName } = req.params;
+    let environment;
+    try {
+      environment = getEnvironment(
+        typeof req.query.env === 'string' ? req.query.env : undefined
+      );
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    if (!drMap[environment.name][listName]) {
+      res.status(404).json({ error: `List not found: ${listName}` });
+      return;
+    }
+
+    // Preview a specific file if given, otherwise the latest one
+    const path =
+      typeof req.query.path === 'string'
+        ? req.query.path
+        : (await findLatestFileForList(listName))?.path;
+
+    if (!path) {
+      res.status(404).json({ error: `No files found for list: ${listName}` });
+      return;
+    }
+
+    // Only files directly in the list's own folder can be previewed
+    if (
+      getParentFolderName(path) !== listName ||
+      path.split('/').length !== 3
+    ) {
+      res.status(400).json({
+        error: `Path must be a CSV file in imported_GoogleSheets/${listName}/`,
+      });
+      return;
+    }
+
+    const [owner, repo] = process.env.GITHUB_REPO!.split('/');
+    res.json(
+      await dryRunReload(owner, repo, listName, path, 'HEAD', environment)
+    );
+  }
+);
+
+// Runs a drift check now, rather than waiting for the schedule
+app.post('/admin/drift/check', requireAdminToken, async (req, res) => {
+  res.json(await checkDrift());
+});
+
+// Helper function to read audit log filters from the query string
+function parseAuditQuery(query: express.Request['query']) {
+  const text = (name: string) =>
+    typeof query[name] === 'string' ? (query[name] as string) : undefined;
+  const time = (name: string) => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+
+    // Accept epoch milliseconds or an ISO date
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return timestamp;
+  };
+
+  return {
+    action: text('action') as AuditAction | undefined,
+    actor: text('actor'),
+    listName: text('list'),
+    environment: text('env'),
+    since: time('since'),
+    until: time('until'),
+    limit: text('limit') === undefined ? undefined : Number(text('limit')) || 0,
+  };
+}
+
+// Searches the audit log, newest entries first
+app.get('/admin/audit', requireAdminToken, async (req, res) => {
+  let query;
+  try {
+    query = parseAuditQuery(req.query);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  res.json(await queryAuditLog(query));
+});
+
+// Exports the audit log as CSV, every matching entry unless limited
+app.get('/admin/audit/export', requireAdminToken, async (req, res) => {
+  let query;
+  try {
+    query = parseAuditQuery(req.query);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  const entries = await queryAuditLog({ ...query, limit: query.limit ?? 0 });
+  res.type('text/csv').attachment('audit.csv').send(formatAuditCsv(entries));
+});
+
+// Helper function to build a webhook event from the event name and payload
+// GitHub sent, which the webhook handlers narrow by name
+function toWebhookEvent(
+  id: string,
+  name: string,
+  payload: unknown
+): EmitterWebhookEvent {
+  return { id, name, payload } as EmitterWebhookEvent;
+}
+
+// Helper function to run a recorded webhook delivery through the handlers,
+// storing its outcome
+async function processDelivery(
+  delivery: WebhookDelivery,
+  payload: unknown
+): Promise<void> {
+  let processingError: unknown;
+  try {
+    await webhooks.receive(
+      toWebhookEvent(delivery.id, delivery.event, payload)
+    );
+  } catch (error) {
+    processingError = error;
+    console.error(`Failed to process webhook delivery ${delivery.id}:`, error);
+  }
+  await finishDelivery(delivery, processingError);
+}
+
+// Lists recent webhook deliveries and the reloads they queued
+app.get('/admin/deliveries', requireAdminToken, (req, res) => {
+  const limit = Number(req.query.limit) || undefined;
+  res.json(
+    listDeliveries(limit).map((delivery) => ({
+      ...delivery,
+      jobs: findJobsForDelivery(delivery.id).map(
+        ({ id, listName, environment, path, state, error }) => ({
+          id,
+          listName,
+          environment,
+          path,
+          state,
+          error,
+        })
+      ),
+    }))
+  );
+});
+
+// Replays a webhook delivery from its stored payload, even if it succeeded
+app.post(
+  '/admin/deliveries/:deliveryId/replay',
+  requireAdminToken,
+  async (req, res) => {
+    const existing = getDelivery(req.params.deliveryId);
+    if (!existing) {
+      res
+        .status(404)
+        .json({ error: `Delivery not found: ${req.params.deliveryId}` });
+      return;
+    }
+
+    const payload = await readDeliveryPayload(existing);
+    const delivery = await startDelivery(
+      existing.id,
+      existing.event,
+      payload,
+      true
+    );
+    if (!delivery) {
+      res.status(409).json({ error: 'Delivery is still being processed' });
+      return;
+    }
+
+    console.log(`Replaying webhook delivery ${delivery.id}`);
+    res.status(202).json(delivery);
+    setImmediate(() => processDelivery(delivery, payload));
+  }
+);
+
+// Webhook endpoint
+app.use(
+  '/webhook',
+  express.raw({ type: 'application/json' }),
+  async (req, res) => {
+    try {
+      // First, verify the webhook signature to ensure it's legitimate
+      const signature = req.headers['x-hub-signature-256'] as string;
+      const payload = req.body.toString();
+
+      // Verify signature using the webhooks instance
+      const isValid = await webhooks.verify(payload, signature);
+
+      if (!isValid) {
+        console.error('Invalid webhook signature');
+        res.status(401).send('Unauthorized');
+        return;
+      }
+
+      // Signature is valid, immediately respond with 200 OK to prevent timeouts
+      res.status(200).send('OK');
+
+      // Parse the payload as JSON for the receive method
+      const parsedPayload = JSON.parse(payload);
+      const deliveryId = req.headers['x-github-delivery'] as string;
+      const event = req.headers['x-github-event'] as string;
+
+      // Process webhook asynchronously after responding
+      setImmediate(async () => {
+        try {
+          if (!deliveryId) {
+            await webhooks.receive(
+              toWebhookEvent(deliveryId, event, parsedPayload)
+            );
+            return;
+          }
+
+          // GitHub may deliver the same event more than once
+          const delivery = await startDelivery(
+            deliveryId,
+            event,
+            parsedPayload
+          );
+          if (!delivery) {
+            console.log(`Skipping duplicate webhook delivery ${deliveryId}`);
+            return;
+          }
+          await processDelivery(delivery, parsedPayload);
+        } catch (error) {
+          console.error('Webhook processing error:', error);
+          // Error handling will be logged and reported via Slack notifications
+        }
+      });
+    } catch (error) {
+      console.error('Webhook verification error:', error);
+      res.status(400).send('Bad Request');
+    }
+  }
+);
+
+// Slack events middleware
+app.use(receiver.router);
+
+// Error handling middleware
+app.use(
+  (
+    error: Error,
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    console.error('Error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+);
+
+// Helper function to get the active drs.json configuration
+export function getDrMap(): DataResourceMap {
+  return drMap;
+}
+
+/**
+ * Loads drs.json, pins, webhook deliveries and the job journal, resuming any
+ * reloads interrupted by the last shutdown
+ */
+export async function loadAppState(): Promise<void> {
+  // Load drs.json from repository before starting server
+  console.log('Loading drs.json from repository...');
+  try {
+    const defaultRepo = process.env.GITHUB_REPO!;
+    const [owner, repo] = defaultRepo.split('/');
+
+    const result = await loadDrMap(owner, repo);
+    applyDrsConfig(result);
+    if (result.issues.length > 0) {
+      await sendSlackNotification(
+        createMessageBlocks('DRs configuration loaded with problems', [
+          `🩺  Affected lists are skipped until drs.json is fixed`,
+          ...formatDrsIssues(result.issues),
+        ])()
+      );
+    }
+  } catch (error) {
+    // Start without any lists, so a push that fixes drs.json can load it
+    console.error('Failed to load initial drs.json:', error);
+    await sendSlackNotification(
+      createMessageBlocks('DRs configuration failed to load', [
+        `❌  ${error}`,
+        `No lists will be reloaded until drs.json is fixed.`,
+      ])()
+    );
+  }
+
+  // Resume any reloads interrupted by the last shutdown
+  await loadPins();
+  await loadDeliveries();
+  await resumeJobs();
+}
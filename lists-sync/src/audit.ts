@@ -0,0 +1,157 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+
+import { DATA_DIR, EnvironmentName } from './config.js';
+import { csvField } from './diff.js';
+
+export type AuditAction =
+  | 'reload'
+  | 'rollback'
+  | 'drs_change'
+  | 'command'
+  | 'command_denied';
+
+export interface AuditEntry {
+  timestamp: number;
+  action: AuditAction;
+  // Who did it: a Slack user ID, a GitHub login, or the service itself
+  actorType: 'slack' | 'github' | 'service';
+  actor: string;
+  actorName?: string;
+  // Slash command or button, with its arguments
+  command?: string;
+  // What queued a reload, e.g. push or drift
+  trigger?: string;
+  listName?: string;
+  environment?: EnvironmentName;
+  dataResourceUid?: string;
+  // File loaded, the commit it was read at and its blob SHA when known
+  path?: string;
+  ref?: string;
+  sha?: string;
+  // List version in ALA before and after a reload
+  versionBefore?: number;
+  versionAfter?: number;
+  outcome: string;
+  details?: string;
+}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  actor?: string;
+  listName?: string;
+  environment?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+// Configuration constants
+const AUDIT_LOG_PATH = path.join(DATA_DIR, 'audit.jsonl');
+const DEFAULT_QUERY_LIMIT = 100;
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'timestamp',
+  'action',
+  'actorType',
+  'actor',
+  'actorName',
+  'command',
+  'trigger',
+  'listName',
+  'environment',
+  'dataResourceUid',
+  'path',
+  'ref',
+  'sha',
+  'versionBefore',
+  'versionAfter',
+  'outcome',
+  'details',
+];
+
+// Serialises writes so entries are appended in order
+let auditWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Appends an entry to the audit log. Entries are never rewritten or removed
+ */
+export function recordAuditEntry(
+  entry: Omit<AuditEntry, 'timestamp'>
+): Promise<void> {
+  const line = `${JSON.stringify({ timestamp: Date.now(), ...entry })}\n`;
+
+  auditWrite = auditWrite
+    .then(() => mkdir(DATA_DIR, { recursive: true }))
+    .then(() => appendFile(AUDIT_LOG_PATH, line))
+    .catch((error) => {
+      console.error('Failed to write to the audit log:', error);
+    });
+
+  return auditWrite;
+}
+
+/**
+ * Reads audit log entries matching a query, newest first. Without a limit
+ * the last 100 matching entries are returned, pass 0 for all of them
+ */
+export async function queryAuditLog(
+  query: AuditQuery = {}
+): Promise<AuditEntry[]> {
+  // Entries still being appended are included
+  await auditWrite;
+
+  let log = '';
+  try {
+    log = await readFile(AUDIT_LOG_PATH, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of log.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // A line cut short by a crash mid-write
+      console.warn('Skipping unreadable audit log line');
+      continue;
+    }
+
+    if (
+      (!query.action || entry.action === query.action) &&
+      (!query.actor || entry.actor === query.actor) &&
+      (!query.listName || entry.listName === query.listName) &&
+      (!query.environment || entry.environment === query.environment) &&
+      (query.since === undefined || entry.timestamp >= query.since) &&
+      (query.until === undefined || entry.timestamp < query.until)
+    ) {
+      entries.push(entry);
+    }
+  }
+
+  entries.reverse();
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  return limit > 0 ? entries.slice(0, limit) : entries;
+}
+
+/**
+ * Formats audit log entries as CSV, one line per entry with ISO timestamps
+ */
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const lines = [
+    CSV_COLUMNS,
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) =>
+        column === 'timestamp'
+          ? new Date(entry.timestamp).toISOString()
+          : String(entry[column] ?? '')
+      )
+    ),
+  ];
+
+  return lines.map((line) => line.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,298 @@
+#!/usr/bin/env node
+import path from 'path';
+import { Readable } from 'stream';
+import { parseArgs } from 'util';
+
+import { getAlaClient } from './ala.js';
+import { EnvironmentName, getAlaListLink, getEnvironment } from './config.js';
+import { diffCsv, formatDiffCsv, formatDiffSummary } from './diff.js';
+import {
+  DrsLoadResult,
+  formatDrsIssues,
+  getDataResourceEntry,
+  getSchemaForList,
+  setDataResourceConfig,
+} from './drs.js';
+import {
+  findLatestFileForList,
+  getFileStream,
+  getParentFolderName,
+  loadDrMap,
+} from './github.js';
+import { reloadList } from './lists.js';
+import {
+  findRepositoryRoot,
+  listLocalFilesForList,
+  loadLocalDrMap,
+  openLocalFile,
+} from './local.js';
+import { getPin, loadPins } from './pins.js';
+import { formatValidationReport, validateCsvStream } from './validation.js';
+
+const USAGE = `Usage: lists-sync <command> [options]
+
+Commands:
+  validate <file> [--list name] [--env test|prod]  Validate a CSV or CSV.GZ file
+  diff <a> <b> [--csv]                             Compare two versions of a list file
+  reload <list> [--file path] [--env test|prod]    Reload a list in ALA
+  status <list> [--env test|prod]                  Show a list's configuration and ALA state
+  drs check                                        Validate drs.json
+
+Options:
+  --root <dir>  Repository checkout to read files and drs.json from
+  --remote      Read files and drs.json from GitHub instead of the checkout
+  --help        Show this message`;
+
+type CliOptions = {
+  env?: string;
+  file?: string;
+  list?: string;
+  root?: string;
+  csv?: boolean;
+  remote?: boolean;
+  help?: boolean;
+};
+
+// Helper function to print message lines
+function print(lines: string[]) {
+  console.log(lines.join('\n'));
+}
+
+// Helper function to read drs.json from the checkout or GitHub, making it the
+// active configuration for schema lookups
+async function loadDrs(options: CliOptions): Promise<DrsLoadResult> {
+  let result: DrsLoadResult;
+  if (options.remote) {
+    const [owner, repo] = process.env.GITHUB_REPO!.split('/');
+    result = await loadDrMap(owner, repo);
+  } else {
+    result = await loadLocalDrMap(findRepositoryRoot(options.root));
+  }
+
+  setDataResourceConfig(result.config);
+  return result;
+}
+
+// Helper function to pick the environment whose drs.json settings apply,
+// without needing ALA credentials
+function resolveEnvironmentName(name?: string): EnvironmentName {
+  const resolved =
+    name || process.env.LISTS_ENVIRONMENTS?.split(',')[0].trim() || 'test';
+  if (resolved !== 'test' && resolved !== 'prod') {
+    throw new Error(`Unknown environment '${resolved}', expected test or prod`);
+  }
+  return resolved;
+}
+
+async function validateCommand(file: string, options: CliOptions) {
+  await loadDrs(options);
+
+  // List files live in imported_GoogleSheets/<list>/, so infer the list from the folder
+  const listName =
+    options.list ||
+    getParentFolderName(
+      path.relative(findRepositoryRoot(options.root), path.resolve(file))
+    ) ||
+    path.basename(path.dirname(file));
+  const environmentName = resolveEnvironmentName(options.env);
+
+  const report = await validateCsvStream(
+    openLocalFile(file),
+    getSchemaForList(environmentName, listName)
+  );
+
+  print([`📄  ${file} (${listName})`, ...formatValidationReport(report, 20)]);
+  return report.valid ? 0 : 1;
+}
+
+async function diffCommand(
+  previous: string,
+  current: string,
+  options: CliOptions
+) {
+  const diff = await diffCsv(
+    () => openLocalFile(previous),
+    () => openLocalFile(current)
+  );
+
+  print(
+    options.csv
+      ? [formatDiffCsv(diff)]
+      : formatDiffSummary(diff, path.basename(previous), 20)
+  );
+  return 0;
+}
+
+async function reloadCommand(listName: string, options: CliOptions) {
+  const { drMap } = await loadDrs(options);
+  const environment = getEnvironment(options.env);
+
+  const dataResourceUid = drMap[environment.name][listName];
+  if (!dataResourceUid) {
+    throw new Error(
+      `List ${listName} is not configured or is disabled for ${environment.name} in drs.json`
+    );
+  }
+
+  // Load the given file, or the newest file for the list
+  let filePath: string | undefined;
+  let openFile: () => Promise<Readable>;
+  if (options.remote) {
+    const [owner, repo] = process.env.GITHUB_REPO!.split('/');
+    filePath = options.file || (await findLatestFileForList(listName))?.path;
+    openFile = () => getFileStream(owner, repo, filePath!, 'HEAD');
+  } else {
+    const rootDir = findRepositoryRoot(options.root);
+    const [latestFile] = await listLocalFilesForList(rootDir, listName);
+    filePath =
+      options.file || (latestFile && path.join(rootDir, latestFile.path));
+    openFile = async () => openLocalFile(filePath!);
+  }
+  if (!filePath) {
+    throw new Error(`No files found for list ${listName}`);
+  }
+
+  await loadPins();
+  const pin = getPin(environment.name, listName);
+  if (pin) {
+    console.warn(
+      `📌 ${listName} is pinned to ${pin.path} in the sync service, later pushes will still be skipped`
+    );
+  }
+
+  // Stop polling cleanly on Ctrl+C, the ALA ingestion carries on regardless
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  print([`🔄  Reloading ${listName} (${environment.name}) from ${filePath}`]);
+  await reloadList(listName, await openFile(), dataResourceUid, environment, {
+    signal: controller.signal,
+    onValidated: async (report) => print(formatValidationReport(report, 20)),
+    onUploadStarted: async () => print([`📤  Uploading to ALA...`]),
+    onIngestionStarted: async (speciesListID) =>
+      print([`⏳  Ingesting into species list ${speciesListID}...`]),
+  });
+
+  print([
+    `✅  List reload completed successfully!`,
+    getAlaListLink(environment, dataResourceUid),
+  ]);
+  return 0;
+}
+
+async function statusCommand(listName: string, options: CliOptions) {
+  await loadDrs(options);
+  const environmentName = resolveEnvironmentName(options.env);
+  const entry = getDataResourceEntry(environmentName, listName);
+
+  const lines = [`📋  ${listName} (${environmentName})`];
+  if (!entry) {
+    lines.push(`❌  Not configured in drs.json`);
+    print(lines);
+    return 1;
+  }
+
+  lines.push(
+    `🏷️  ${entry.uid}${entry.displayName ? ` "${entry.displayName}"` : ''}${
+      entry.enabled ? '' : ' (disabled)'
+    }`
+  );
+  if (entry.owner) lines.push(`👤  Owner: ${entry.owner}`);
+  if (entry.schema) lines.push(`🔎  Schema: ${entry.schema}`);
+
+  const latestFile = options.remote
+    ? await findLatestFileForList(listName)
+    : (
+        await listLocalFilesForList(findRepositoryRoot(options.root), listName)
+      )[0];
+  lines.push(`📁  Latest file: ${latestFile?.name ?? 'none'}`);
+
+  await loadPins();
+  const pin = getPin(environmentName, listName);
+  if (pin) {
+    lines.push(
+      `📌  Pinned to ${pin.path} by ${pin.pinnedBy} at ${new Date(
+        pin.pinnedAt
+      ).toISOString()}`
+    );
+  }
+
+  // ALA details need credentials, so report rather than fail without them
+  try {
+    const environment = getEnvironment(environmentName);
+    const list = await getAlaClient(environment).getSpeciesList(entry.uid);
+    lines.push(
+      `☁️  ALA: "${list.title}" version ${list.version}, ${list.rowCount} rows`,
+      getAlaListLink(environment, entry.uid)
+    );
+  } catch (error) {
+    lines.push(`⚠️  Could not fetch ALA details: ${(error as Error).message}`);
+  }
+
+  print(lines);
+  return 0;
+}
+
+async function drsCheckCommand(options: CliOptions) {
+  const { drMap, issues } = await loadDrs(options);
+
+  print([
+    `📋  drs.json: ${Object.keys(drMap.test).length} test and ${
+      Object.keys(drMap.prod).length
+    } production lists enabled`,
+    ...(issues.length === 0
+      ? ['✅  No problems found']
+      : formatDrsIssues(issues)),
+  ]);
+  return issues.some((issue) => issue.severity === 'error') ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values: options, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      env: { type: 'string' },
+      file: { type: 'string' },
+      list: { type: 'string' },
+      root: { type: 'string' },
+      csv: { type: 'boolean' },
+      remote: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (options.help || !command) {
+    print([USAGE]);
+    return options.help ? 0 : 1;
+  }
+
+  switch (command) {
+    case 'validate':
+      if (args.length === 1) return validateCommand(args[0], options);
+      break;
+    case 'diff':
+      if (args.length === 2) return diffCommand(args[0], args[1], options);
+      break;
+    case 'reload':
+      if (args.length === 1) return reloadCommand(args[0], options);
+      break;
+    case 'status':
+      if (args.length === 1) return statusCommand(args[0], options);
+      break;
+    case 'drs':
+      if (args[0] === 'check') return drsCheckCommand(options);
+      break;
+  }
+
+  console.error(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`);
+  return 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`❌  ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
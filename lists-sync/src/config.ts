@@ -0,0 +1,196 @@
+import dotenv from 'dotenv';
+
+import type { DataResourceMap } from './github.js';
+
+dotenv.config();
+
+export type EnvironmentName = keyof DataResourceMap;
+
+// Directory for the job journal and other state that must survive restarts
+export const DATA_DIR = process.env.DATA_DIR || 'data';
+
+export interface ListsEnvironment {
+  name: EnvironmentName;
+  // ALA Lists API endpoint
+  apiEndpoint: string;
+  // ALA Lists UI, used for links to lists
+  uiBaseUrl: string;
+  // OAuth2 token endpoint and client credentials
+  authUrl: string;
+  scopes: string;
+  clientId: string;
+  clientSecret: string;
+  // Reloads must be approved in Slack before they run
+  requiresApproval: boolean;
+  // Pushes to the repository reload lists in this environment
+  syncOnPush: boolean;
+}
+
+export interface AlaClientSettings {
+  // Retries after a failed ALA Lists API request
+  maxRetries: number;
+  // Delay before the first retry in milliseconds, doubling after each attempt
+  retryBaseDelay: number;
+  // Failed requests in a row before requests are paused
+  circuitFailureThreshold: number;
+  // How long requests are paused for in milliseconds
+  circuitCooldown: number;
+  // Delay between ingestion progress checks in milliseconds
+  progressInterval: number;
+}
+
+const ENVIRONMENT_NAMES: EnvironmentName[] = ['test', 'prod'];
+
+const DEFAULT_UI_URLS: Record<EnvironmentName, string> = {
+  test: 'https://lists.test.ala.org.au',
+  prod: 'https://lists.ala.org.au',
+};
+
+const DEFAULT_AUTH_URL =
+  'https://auth-secure.auth.ap-southeast-2.amazoncognito.com/oauth2/token';
+const DEFAULT_SCOPES = 'ala/attrs ala/internal users/read';
+
+let environments: ListsEnvironment[] | null = null;
+
+// Helper function to read a per-environment setting, e.g. LISTS_PROD_API_ENDPOINT,
+// falling back to the shared setting, e.g. LISTS_API_ENDPOINT, if allowed
+function readSetting(
+  name: EnvironmentName,
+  key: string,
+  allowShared: boolean = true
+): string | undefined {
+  return (
+    process.env[`LISTS_${name.toUpperCase()}_${key}`] ||
+    (allowShared ? process.env[`LISTS_${key}`] : undefined)
+  );
+}
+
+// Helper function to list the configured environment names
+function configuredEnvironmentNames(): string[] {
+  return (process.env.LISTS_ENVIRONMENTS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+// Helper function to read an environment's settings. With several
+// environments, sharing an endpoint would sync every section of drs.json to
+// the same server, so those settings must be set per environment
+function loadEnvironment(
+  name: EnvironmentName,
+  isOnlyEnvironment: boolean
+): ListsEnvironment {
+  const serverSetting = (key: string) =>
+    readSetting(name, key, isOnlyEnvironment);
+  const apiEndpoint = serverSetting('API_ENDPOINT');
+  const uiUrl = serverSetting('UI_URL');
+  const clientId = readSetting(name, 'AUTH_CLIENT_ID');
+  const clientSecret = readSetting(name, 'AUTH_CLIENT_SECRET');
+
+  const missing = [
+    ['API_ENDPOINT', apiEndpoint],
+    ['AUTH_CLIENT_ID', clientId],
+    ['AUTH_CLIENT_SECRET', clientSecret],
+    ...(isOnlyEnvironment ? [] : [['UI_URL', uiUrl]]),
+  ]
+    .filter(([, value]) => !value)
+    .map(([key]) => `LISTS_${name.toUpperCase()}_${key}`);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing configuration for '${name}' environment: ${missing.join(', ')}`
+    );
+  }
+
+  return {
+    name,
+    apiEndpoint: apiEndpoint!.replace(/\/$/, ''),
+    uiBaseUrl: (uiUrl || DEFAULT_UI_URLS[name]).replace(/\/$/, ''),
+    authUrl: readSetting(name, 'AUTH_URL') || DEFAULT_AUTH_URL,
+    scopes: readSetting(name, 'AUTH_SCOPES') || DEFAULT_SCOPES,
+    clientId: clientId!,
+    clientSecret: clientSecret!,
+    requiresApproval:
+      process.env[`LISTS_${name.toUpperCase()}_REQUIRE_APPROVAL`] === 'true',
+    syncOnPush:
+      process.env[`LISTS_${name.toUpperCase()}_SYNC_ON_PUSH`] !== 'false',
+  };
+}
+
+/**
+ * Gets the configured ALA Lists environments, in the order they were listed
+ */
+export function getEnvironments(): ListsEnvironment[] {
+  if (environments) return environments;
+
+  let names = configuredEnvironmentNames();
+  if (names.length === 0) {
+    // Deployments from before environments were configurable only set
+    // LISTS_API_ENDPOINT, and synced the drs.json section matching it
+    const legacyEndpoint = process.env.LISTS_API_ENDPOINT;
+    if (!legacyEndpoint) {
+      throw new Error(
+        'No ALA Lists environments configured, set LISTS_ENVIRONMENTS (e.g. "test,prod")'
+      );
+    }
+    names = [legacyEndpoint.includes('.test') ? 'test' : 'prod'];
+    console.warn(
+      `LISTS_ENVIRONMENTS is not set, syncing the ${names[0]} environment from LISTS_API_ENDPOINT`
+    );
+  }
+
+  for (const name of names) {
+    if (!ENVIRONMENT_NAMES.includes(name as EnvironmentName)) {
+      throw new Error(
+        `Unknown environment '${name}', expected one of: ${ENVIRONMENT_NAMES.join(
+          ', '
+        )}`
+      );
+    }
+  }
+
+  environments = names.map((name) =>
+    loadEnvironment(name as EnvironmentName, names.length === 1)
+  );
+  return environments;
+}
+
+/**
+ * Gets an environment by name, or the default (first configured) environment
+ */
+export function getEnvironment(name?: string): ListsEnvironment {
+  const configured = getEnvironments();
+  if (!name) return configured[0];
+
+  const environment = configured.find((env) => env.name === name);
+  if (!environment) {
+    throw new Error(
+      `Environment '${name}' is not configured, available: ${configured
+        .map((env) => env.name)
+        .join(', ')}`
+    );
+  }
+  return environment;
+}
+
+/**
+ * Gets the retry and circuit breaker settings for ALA Lists API requests
+ */
+export function getAlaClientSettings(): AlaClientSettings {
+  return {
+    maxRetries: Number(process.env.ALA_MAX_RETRIES ?? 3),
+    retryBaseDelay: Number(process.env.ALA_RETRY_BASE_DELAY) || 1000,
+    circuitFailureThreshold:
+      Number(process.env.ALA_CIRCUIT_FAILURE_THRESHOLD) || 5,
+    circuitCooldown: Number(process.env.ALA_CIRCUIT_COOLDOWN) || 60000,
+    progressInterval: Number(process.env.ALA_PROGRESS_INTERVAL) || 5000,
+  };
+}
+
+// Helper function to build the ALA UI link for a list
+export function getAlaListLink(
+  environment: ListsEnvironment,
+  dataResourceUid: string
+): string {
+  return `${environment.uiBaseUrl}/list/${dataResourceUid}`;
+}
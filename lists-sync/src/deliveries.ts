@@ -0,0 +1,141 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { DATA_DIR } from './config.js';
+
+export type DeliveryStatus = 'processing' | 'processed' | 'failed';
+
+export interface WebhookDelivery {
+  // GitHub's x-github-delivery ID
+  id: string;
+  event: string;
+  status: DeliveryStatus;
+  // Branch ref and head commit for push events
+  ref?: string;
+  commitSha?: string;
+  error?: string;
+  // Number of times the delivery was processed, including replays
+  attempts: number;
+  receivedAt: number;
+  updatedAt: number;
+}
+
+const DELIVERIES_PATH = path.join(DATA_DIR, 'deliveries.json');
+const PAYLOADS_DIR = path.join(DATA_DIR, 'deliveries');
+const MAX_DELIVERIES = 200; // Oldest deliveries and their payloads are dropped
+
+let deliveries: WebhookDelivery[] = [];
+
+// Helper function to get the path a delivery's payload is kept at
+function payloadPath(id: string): string {
+  // Delivery IDs are GUIDs, but don't trust them with the file system
+  return path.join(PAYLOADS_DIR, `${id.replace(/[^\w-]/g, '_')}.json`);
+}
+
+async function saveDeliveries(): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(DELIVERIES_PATH, JSON.stringify(deliveries, null, 2));
+}
+
+/**
+ * Loads the record of webhook deliveries received before a restart
+ */
+export async function loadDeliveries(): Promise<void> {
+  try {
+    deliveries = JSON.parse(await readFile(DELIVERIES_PATH, 'utf8'));
+    console.log(`Loaded ${deliveries.length} webhook delivery record(s)`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  // A delivery still processing when the server stopped may not have finished
+  for (const delivery of deliveries) {
+    if (delivery.status === 'processing') {
+      delivery.status = 'failed';
+      delivery.error = 'Interrupted by a restart';
+    }
+  }
+}
+
+export function getDelivery(id: string): WebhookDelivery | null {
+  return deliveries.find((delivery) => delivery.id === id) || null;
+}
+
+// Helper function to list recent deliveries, newest first
+export function listDeliveries(limit: number = 50): WebhookDelivery[] {
+  return deliveries.slice(-limit).reverse();
+}
+
+/**
+ * Records that a delivery is being processed, keeping its payload for replays
+ *
+ * @param replay - Process the delivery again even if it succeeded before
+ * @returns The delivery, or null if it was already processed or is in progress
+ */
+export async function startDelivery(
+  id: string,
+  event: string,
+  payload: unknown,
+  replay: boolean = false
+): Promise<WebhookDelivery | null> {
+  const now = Date.now();
+  let delivery = getDelivery(id);
+
+  // GitHub redelivers on timeouts and when asked to, only retry failures
+  if (
+    delivery &&
+    (delivery.status === 'processing' ||
+      (delivery.status === 'processed' && !replay))
+  ) {
+    return null;
+  }
+
+  if (delivery) {
+    delivery.status = 'processing';
+    delivery.error = undefined;
+    delivery.attempts++;
+    delivery.updatedAt = now;
+  } else {
+    const { ref, after } = (payload || {}) as { ref?: string; after?: string };
+    delivery = {
+      id,
+      event,
+      status: 'processing',
+      ref,
+      commitSha: after,
+      attempts: 1,
+      receivedAt: now,
+      updatedAt: now,
+    };
+    deliveries.push(delivery);
+
+    await mkdir(PAYLOADS_DIR, { recursive: true });
+    await writeFile(payloadPath(id), JSON.stringify(payload));
+
+    for (const dropped of deliveries.splice(
+      0,
+      Math.max(0, deliveries.length - MAX_DELIVERIES)
+    )) {
+      await rm(payloadPath(dropped.id), { force: true });
+    }
+  }
+
+  await saveDeliveries();
+  return delivery;
+}
+
+export async function finishDelivery(
+  delivery: WebhookDelivery,
+  error?: unknown
+): Promise<void> {
+  delivery.status = error ? 'failed' : 'processed';
+  delivery.error = error ? String(error) : undefined;
+  delivery.updatedAt = Date.now();
+  await saveDeliveries();
+}
+
+export async function readDeliveryPayload(
+  delivery: WebhookDelivery
+): Promise<unknown> {
+  return JSON.parse(await readFile(payloadPath(delivery.id), 'utf8'));
+}
@@ -0,0 +1,315 @@
+import { createHash } from 'crypto';
+
+import { CsvSource, readCsvRecords } from './validation.js';
+
+export interface ColumnChange {
+  column: string;
+  before: string;
+  after: string;
+}
+
+export interface RowChange {
+  scientificName: string;
+  changes: ColumnChange[];
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  changed: RowChange[];
+  unchanged: number;
+  addedColumns: string[];
+  removedColumns: string[];
+}
+
+// Opens a fresh copy of a CSV file, the diff reads each file twice
+export type CsvOpener = () => CsvSource | Promise<CsvSource>;
+
+interface OpenCsv {
+  columns: string[];
+  keyIndex: number;
+  records: AsyncGenerator<string[]>;
+}
+
+const KEY_COLUMN = 'scientificName';
+
+// Bytes of each row's SHA-1 kept as a number, 48 bits is plenty per name
+const ROW_HASH_BYTES = 6;
+
+// Helper function to open a CSV file and read its header
+async function openCsv(open: CsvOpener): Promise<OpenCsv> {
+  const records = readCsvRecords(await open());
+  const { value: header = [] } = await records.next();
+  const columns = (header as string[]).map((name) => name.trim());
+  const keyIndex = columns.indexOf(KEY_COLUMN);
+
+  if (keyIndex < 0) {
+    // Stop reading, which also closes the underlying stream
+    await records.return(undefined);
+    throw new Error(`File has no \`${KEY_COLUMN}\` column to diff on`);
+  }
+
+  return { columns, keyIndex, records };
+}
+
+// Helper function to hash the shared column values of each row, grouped by
+// scientific name, so only the names and hashes are held in memory. Most
+// names have one row, so a lone hash is kept without an array
+async function hashRows(
+  file: OpenCsv,
+  sharedColumns: string[]
+): Promise<Map<string, number | number[]>> {
+  const indexes = sharedColumns.map((column) => file.columns.indexOf(column));
+  const hashes = new Map<string, number | number[]>();
+
+  for await (const record of file.records) {
+    const field = record[file.keyIndex]?.trim();
+    if (!field) continue;
+
+    // Copy the name, a slice would keep the whole parsed chunk alive
+    const key = Buffer.from(field).toString();
+    const hash = createHash('sha1')
+      .update(JSON.stringify(indexes.map((index) => record[index] ?? '')))
+      .digest()
+      .readUIntBE(0, ROW_HASH_BYTES);
+
+    const existing = hashes.get(key);
+    if (existing === undefined) {
+      hashes.set(key, hash);
+    } else if (typeof existing === 'number') {
+      hashes.set(key, [existing, hash]);
+    } else {
+      existing.push(hash);
+    }
+  }
+
+  return hashes;
+}
+
+// Helper function to read the shared column values of the rows with the
+// given scientific names
+async function collectRows(
+  file: OpenCsv,
+  sharedColumns: string[],
+  keys: Set<string>
+): Promise<Map<string, Record<string, string>[]>> {
+  const rows = new Map<string, Record<string, string>[]>();
+
+  for await (const record of file.records) {
+    const key = record[file.keyIndex]?.trim();
+    if (!key || !keys.has(key)) continue;
+
+    const row: Record<string, string> = {};
+    for (const column of sharedColumns) {
+      row[column] = record[file.columns.indexOf(column)] ?? '';
+    }
+    const existing = rows.get(key);
+    if (existing) {
+      existing.push(row);
+    } else {
+      rows.set(key, [row]);
+    }
+  }
+
+  return rows;
+}
+
+// Helper function to check whether a name's rows hashed the same, ignoring
+// the order of duplicate rows
+function sameHashes(a: number | number[], b: number | number[]): boolean {
+  if (typeof a === 'number' || typeof b === 'number') return a === b;
+
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && [...setA].every((hash) => setB.has(hash));
+}
+
+// Helper function to describe a column's values across duplicate rows
+function columnValue(rows: Record<string, string>[], column: string): string {
+  return Array.from(new Set(rows.map((row) => row[column]))).join(' | ');
+}
+
+/**
+ * Compares two versions of a list file, keyed by scientificName. Each file
+ * is streamed twice: once to hash every row, then again to read the values
+ * of the rows that changed, so neither file is held in memory
+ *
+ * @param openPrevious - Opens the CSV content or stream of the previous file
+ * @param openCurrent - Opens the CSV content or stream of the new file
+ */
+export async function diffCsv(
+  openPrevious: CsvOpener,
+  openCurrent: CsvOpener
+): Promise<ListDiff> {
+  const previous = await openCsv(openPrevious);
+  let current: OpenCsv;
+  try {
+    current = await openCsv(openCurrent);
+  } catch (error) {
+    // Don't leave the other download open
+    await previous.records.return(undefined);
+    throw error;
+  }
+
+  // Only columns in both files are compared, the rest are reported separately
+  const sharedColumns = current.columns.filter(
+    (column) => column !== KEY_COLUMN && previous.columns.includes(column)
+  );
+
+  const diff: ListDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    addedColumns: current.columns.filter(
+      (column) => !previous.columns.includes(column)
+    ),
+    removedColumns: previous.columns.filter(
+      (column) => !current.columns.includes(column)
+    ),
+  };
+
+  // Both files are read side by side so neither download sits idle
+  const [previousResult, currentResult] = await Promise.allSettled([
+    hashRows(previous, sharedColumns),
+    hashRows(current, sharedColumns),
+  ]);
+  if (
+    previousResult.status === 'rejected' ||
+    currentResult.status === 'rejected'
+  ) {
+    await Promise.all([
+      previous.records.return(undefined),
+      current.records.return(undefined),
+    ]);
+    throw previousResult.status === 'rejected'
+      ? previousResult.reason
+      : (currentResult as PromiseRejectedResult).reason;
+  }
+  const previousHashes = previousResult.value;
+  const currentHashes = currentResult.value;
+
+  const changedKeys = new Set<string>();
+  for (const [scientificName, hashes] of currentHashes) {
+    const previousRowHashes = previousHashes.get(scientificName);
+    if (previousRowHashes === undefined) {
+      diff.added.push(scientificName);
+    } else if (sameHashes(previousRowHashes, hashes)) {
+      diff.unchanged++;
+    } else {
+      changedKeys.add(scientificName);
+    }
+  }
+
+  for (const scientificName of previousHashes.keys()) {
+    if (!currentHashes.has(scientificName)) {
+      diff.removed.push(scientificName);
+    }
+  }
+
+  if (changedKeys.size === 0) return diff;
+
+  // Second pass, reading only the rows that changed
+  const previousRows = await collectRows(
+    await openCsv(openPrevious),
+    sharedColumns,
+    changedKeys
+  );
+  const currentRows = await collectRows(
+    await openCsv(openCurrent),
+    sharedColumns,
+    changedKeys
+  );
+
+  for (const scientificName of changedKeys) {
+    const before = previousRows.get(scientificName) || [];
+    const after = currentRows.get(scientificName) || [];
+    const changes = sharedColumns
+      .map((column) => ({
+        column,
+        before: columnValue(before, column),
+        after: columnValue(after, column),
+      }))
+      .filter(({ before, after }) => before !== after);
+
+    // Duplicate rows can differ only in how their values are combined
+    if (changes.length > 0) {
+      diff.changed.push({ scientificName, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  return diff;
+}
+
+// Helper function to list column names for Slack, labelling blank headers
+// such as the one left by a trailing comma
+function formatColumnNames(columns: string[]): string {
+  return columns
+    .map((column) => column.trim())
+    .map((column) => (column ? `\`${column}\`` : '_(blank)_'))
+    .join(', ');
+}
+
+/**
+ * Formats a short summary of a diff as Slack message lines
+ */
+export function formatDiffSummary(
+  diff: ListDiff,
+  previousName: string,
+  maxItems: number = 5
+): string[] {
+  const sample = (names: string[]) =>
+    names.length > maxItems
+      ? `${names.slice(0, maxItems).join(', ')} and ${
+          names.length - maxItems
+        } more`
+      : names.join(', ');
+
+  const lines = [
+    `🧮  Changes since \`${previousName}\`: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+  ];
+
+  if (diff.added.length > 0) {
+    lines.push(`• Added: _${sample(diff.added)}_`);
+  }
+  if (diff.removed.length > 0) {
+    lines.push(`• Removed: _${sample(diff.removed)}_`);
+  }
+  if (diff.changed.length > 0) {
+    lines.push(
+      `• Changed: _${sample(diff.changed.map((row) => row.scientificName))}_`
+    );
+  }
+  if (diff.addedColumns.length > 0) {
+    lines.push(`• New columns: ${formatColumnNames(diff.addedColumns)}`);
+  }
+  if (diff.removedColumns.length > 0) {
+    lines.push(`• Dropped columns: ${formatColumnNames(diff.removedColumns)}`);
+  }
+
+  return lines;
+}
+
+// Helper function to quote a CSV field
+export function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Formats the full diff as CSV, one line per added, removed or changed value
+ */
+export function formatDiffCsv(diff: ListDiff): string {
+  const lines = [['change', KEY_COLUMN, 'column', 'before', 'after']];
+
+  for (const name of diff.added) lines.push(['added', name, '', '', '']);
+  for (const name of diff.removed) lines.push(['removed', name, '', '', '']);
+  for (const { scientificName, changes } of diff.changed) {
+    for (const { column, before, after } of changes) {
+      lines.push(['changed', scientificName, column, before, after]);
+    }
+  }
+
+  return lines.map((line) => line.map(csvField).join(',')).join('\n');
+}
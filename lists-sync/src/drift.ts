@@ -0,0 +1,304 @@
+import { getAlaClient } from './ala.js';
+import {
+  EnvironmentName,
+  ListsEnvironment,
+  getAlaListLink,
+  getEnvironments,
+} from './config.js';
+import { getDataResourceConfig } from './drs.js';
+import {
+  ListFile,
+  findLatestFileForList,
+  getFileStream,
+  resolveCommitSha,
+} from './github.js';
+import {
+  enqueueReload,
+  findLastCompletedJob,
+  isFinished,
+  listJobsForList,
+} from './jobs.js';
+import { hashCsv } from './lists.js';
+import { getPin } from './pins.js';
+import { createMessageBlocks, sendSlackNotification } from './slack.js';
+
+export type DriftReason =
+  | 'GIT_AHEAD'
+  | 'ALA_VERSION_CHANGED'
+  | 'ALA_ROW_COUNT_CHANGED';
+
+export interface ListDrift {
+  listName: string;
+  environment: EnvironmentName;
+  dataResourceUid: string;
+  // in_sync and drifted lists were compared, unknown lists have no record of
+  // a reload to compare with, and skipped lists are busy reloading
+  status: 'in_sync' | 'drifted' | 'unknown' | 'skipped' | 'error';
+  reasons: { reason: DriftReason; message: string }[];
+  newestFile?: ListFile;
+  // Set when a reload was queued to fix the drift
+  reloadJobId?: string;
+  error?: string;
+}
+
+export interface DriftCheckResult {
+  startedAt: number;
+  finishedAt: number;
+  lists: ListDrift[];
+}
+
+// Configuration constants
+const DRIFT_CHECK_INTERVAL =
+  Number(process.env.DRIFT_CHECK_INTERVAL ?? 60) * 60 * 1000; // Minutes, 0 disables the schedule
+const DRIFT_AUTO_RELOAD = process.env.DRIFT_AUTO_RELOAD === 'true';
+
+let driftTimer: NodeJS.Timeout | undefined;
+let runningCheck: Promise<DriftCheckResult> | null = null;
+
+// Helper function to compare a single list in an environment with git
+async function checkListDrift(
+  environment: ListsEnvironment,
+  listName: string,
+  dataResourceUid: string
+): Promise<ListDrift> {
+  const drift: ListDrift = {
+    listName,
+    environment: environment.name,
+    dataResourceUid,
+    status: 'in_sync',
+    reasons: [],
+  };
+
+  // A queued or running reload will change ALA anyway
+  const jobs = listJobsForList(listName, environment.name);
+  if (jobs.some((job) => !isFinished(job))) {
+    drift.status = 'skipped';
+    return drift;
+  }
+
+  const lastLoaded = findLastCompletedJob(listName, environment.name);
+  const newestFile = await findLatestFileForList(listName);
+  if (!newestFile) {
+    return drift;
+  }
+  drift.newestFile = newestFile;
+
+  if (!lastLoaded) {
+    drift.status = 'unknown';
+    return drift;
+  }
+
+  // A pinned list stays on its older file on purpose
+  const pinned = !!getPin(environment.name, listName);
+  const sameFile =
+    newestFile.path === lastLoaded.path && newestFile.sha === lastLoaded.sha;
+
+  if (!pinned && !sameFile) {
+    // Another file with the same content as the loaded one is not drift
+    const contentHash = lastLoaded.baseline?.contentHash;
+    const newestHash =
+      contentHash &&
+      (await hashCsv(
+        await getFileStream(
+          lastLoaded.owner,
+          lastLoaded.repo,
+          newestFile.path,
+          'HEAD'
+        )
+      ));
+
+    if (!contentHash || newestHash !== contentHash) {
+      drift.reasons.push({
+        reason: 'GIT_AHEAD',
+        message: `Git has \`${
+          newestFile.name
+        }\`, ALA was last loaded from \`${lastLoaded.path.split('/').pop()}\``,
+      });
+    }
+  }
+
+  // Changes made in the ALA UI bump the version or change the rows
+  if (lastLoaded.ingested) {
+    const list = await getAlaClient(environment).getSpeciesList(
+      dataResourceUid
+    );
+
+    if (list.version !== lastLoaded.ingested.version) {
+      drift.reasons.push({
+        reason: 'ALA_VERSION_CHANGED',
+        message: `ALA is at version ${list.version}, the last reload left it at ${lastLoaded.ingested.version}`,
+      });
+    }
+    if (list.rowCount !== lastLoaded.ingested.rowCount) {
+      drift.reasons.push({
+        reason: 'ALA_ROW_COUNT_CHANGED',
+        message: `ALA holds ${list.rowCount} rows, the last reload loaded ${lastLoaded.ingested.rowCount}`,
+      });
+    }
+  }
+
+  if (drift.reasons.length > 0) {
+    drift.status = 'drifted';
+  }
+  return drift;
+}
+
+// Helper function to queue a reload of the newest file for a drifted list
+async function reloadDriftedList(
+  environment: ListsEnvironment,
+  drift: ListDrift
+): Promise<void> {
+  const [owner, repo] = process.env.GITHUB_REPO!.split('/');
+  const file = drift.newestFile!;
+
+  const job = await enqueueReload({
+    listName: drift.listName,
+    dataResourceUid: drift.dataResourceUid,
+    environment: environment.name,
+    owner,
+    repo,
+    path: file.path,
+    ref: await resolveCommitSha(owner, repo, 'HEAD'),
+    sha: file.sha,
+    title: `Drift reload: ${drift.listName} (${environment.name})`,
+    messages: [
+      `🧭  Drift check found ALA out of sync with git, reloading \`${file.name}\`...`,
+      ...drift.reasons.map(({ message }) => `• ${message}`),
+    ],
+    gitHubLink: `https://github.com/${process.env
+      .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${drift.listName}`,
+    alaLink: getAlaListLink(environment, drift.dataResourceUid),
+    trigger: { source: 'drift' },
+  });
+  drift.reloadJobId = job.id;
+}
+
+// Helper function to format the drift check digest for Slack
+function formatDriftDigest(result: DriftCheckResult): string[] {
+  const count = (status: ListDrift['status']) =>
+    result.lists.filter((list) => list.status === status).length;
+
+  const lines = [
+    `🧭  Checked ${result.lists.length} list(s): ${count(
+      'in_sync'
+    )} in sync, ${count('drifted')} drifted, ${count(
+      'unknown'
+    )} never reloaded by the service, ${count('skipped')} busy, ${count(
+      'error'
+    )} failed`,
+  ];
+
+  for (const list of result.lists) {
+    if (list.status === 'drifted') {
+      lines.push(
+        '',
+        `⚠️  *${list.listName}* (${list.environment})${
+          list.reloadJobId ? ', reload queued' : ''
+        }`,
+        ...list.reasons.map(({ message }) => `• ${message}`)
+      );
+    } else if (list.status === 'error') {
+      lines.push(
+        '',
+        `❌  *${list.listName}* (${list.environment}): ${list.error}`
+      );
+    }
+  }
+
+  if (count('drifted') > 0 && !DRIFT_AUTO_RELOAD) {
+    lines.push(
+      '',
+      `Run \`/reload <list_name> --env=<environment>\` to bring a list back in sync.`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Compares every enabled list in drs.json with what ALA holds, posting a
+ * digest to Slack when anything drifted and queueing reloads if
+ * DRIFT_AUTO_RELOAD is set
+ */
+export async function checkDrift(): Promise<DriftCheckResult> {
+  // Overlapping checks would queue the same reloads twice
+  if (runningCheck) return runningCheck;
+
+  runningCheck = (async () => {
+    const startedAt = Date.now();
+    const config = getDataResourceConfig();
+    const lists: ListDrift[] = [];
+
+    for (const environment of getEnvironments()) {
+      for (const [listName, entry] of Object.entries(
+        config[environment.name]
+      )) {
+        if (!entry.enabled) continue;
+
+        let drift: ListDrift;
+        try {
+          drift = await checkListDrift(environment, listName, entry.uid);
+          if (drift.status === 'drifted' && DRIFT_AUTO_RELOAD) {
+            await reloadDriftedList(environment, drift);
+          }
+        } catch (error) {
+          console.error(`Drift check failed for ${listName}:`, error);
+          drift = {
+            listName,
+            environment: environment.name,
+            dataResourceUid: entry.uid,
+            status: 'error',
+            reasons: [],
+            error: String(error),
+          };
+        }
+        lists.push(drift);
+      }
+    }
+
+    const result = { startedAt, finishedAt: Date.now(), lists };
+    const problems = lists.filter(
+      (list) => list.status === 'drifted' || list.status === 'error'
+    );
+    console.log(
+      `🧭 Drift check finished: ${problems.length} of ${lists.length} list(s) need attention`
+    );
+
+    if (problems.length > 0) {
+      await sendSlackNotification(
+        createMessageBlocks('Drift check', formatDriftDigest(result))()
+      );
+    }
+    return result;
+  })();
+
+  try {
+    return await runningCheck;
+  } finally {
+    runningCheck = null;
+  }
+}
+
+/**
+ * Runs the drift check every DRIFT_CHECK_INTERVAL minutes
+ */
+export function startDriftScheduler(): void {
+  if (DRIFT_CHECK_INTERVAL <= 0 || driftTimer) return;
+
+  console.log(
+    `🧭 Checking for drift every ${DRIFT_CHECK_INTERVAL / 60000} minutes${
+      DRIFT_AUTO_RELOAD ? ', reloading drifted lists' : ''
+    }`
+  );
+  driftTimer = setInterval(() => {
+    checkDrift().catch((error) => {
+      console.error('Drift check failed:', error);
+    });
+  }, DRIFT_CHECK_INTERVAL);
+  driftTimer.unref();
+}
+
+export function stopDriftScheduler(): void {
+  clearInterval(driftTimer);
+  driftTimer = undefined;
+}
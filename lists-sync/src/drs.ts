@@ -0,0 +1,262 @@
+import type { EnvironmentName } from './config.js';
+import type { DataResourceMap } from './github.js';
+import { ListSchema, getListSchema, listSchemas } from './schemas.js';
+
+/**
+ * A list's entry in drs.json, either a bare data resource UID or an object:
+ *
+ * ```json
+ * "Edible_species_list": {
+ *   "uid": "dr23166",
+ *   "displayName": "Edible species",
+ *   "owner": "U012AB3CD",
+ *   "enabled": true,
+ *   "schema": "Edible_species_list"
+ * }
+ * ```
+ */
+export interface DataResourceEntry {
+  uid: string;
+  displayName?: string;
+  // Slack user ID of the curator to notify when a reload fails
+  owner?: string;
+  // Disabled lists stay in drs.json but are not reloaded
+  enabled: boolean;
+  // Validation schema to use, defaults to the schema named after the list
+  schema?: string;
+}
+
+export type DataResourceConfig = Record<
+  EnvironmentName,
+  Record<string, DataResourceEntry>
+>;
+
+export interface DrsIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  environment?: EnvironmentName;
+  listName?: string;
+}
+
+export interface DrsLoadResult {
+  config: DataResourceConfig;
+  // UIDs of the valid, enabled lists
+  drMap: DataResourceMap;
+  issues: DrsIssue[];
+}
+
+const ENVIRONMENT_KEYS: EnvironmentName[] = ['prod', 'test'];
+const ENTRY_KEYS = ['uid', 'displayName', 'owner', 'enabled', 'schema'];
+const DR_UID_PATTERN = /^dr\d+$/;
+const SLACK_USER_PATTERN = /^[UW][A-Z0-9]+$/;
+
+let currentConfig: DataResourceConfig = { prod: {}, test: {} };
+
+// Helper function to check for a plain JSON object
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Helper function to check a single entry, returning null when it is unusable
+function parseEntry(
+  value: unknown,
+  report: (message: string, severity?: DrsIssue['severity']) => void
+): DataResourceEntry | null {
+  const entry: DataResourceEntry | null =
+    typeof value === 'string'
+      ? { uid: value, enabled: true }
+      : isObject(value)
+      ? {
+          uid: value.uid as string,
+          displayName: value.displayName as string | undefined,
+          owner: value.owner as string | undefined,
+          enabled:
+            value.enabled === undefined ? true : (value.enabled as boolean),
+          schema: value.schema as string | undefined,
+        }
+      : null;
+
+  if (!entry) {
+    report('Entry must be a data resource UID or an object with a `uid`');
+    return null;
+  }
+
+  if (isObject(value)) {
+    for (const key of Object.keys(value)) {
+      if (!ENTRY_KEYS.includes(key)) {
+        report(`Unknown property \`${key}\` is ignored`, 'warning');
+      }
+    }
+  }
+
+  const errors: string[] = [];
+  if (typeof entry.uid !== 'string' || !DR_UID_PATTERN.test(entry.uid)) {
+    errors.push(
+      `\`uid\` must look like \`dr12345\`, got \`${String(entry.uid)}\``
+    );
+  }
+  if (
+    entry.displayName !== undefined &&
+    typeof entry.displayName !== 'string'
+  ) {
+    errors.push('`displayName` must be a string');
+  }
+  if (
+    entry.owner !== undefined &&
+    (typeof entry.owner !== 'string' || !SLACK_USER_PATTERN.test(entry.owner))
+  ) {
+    errors.push('`owner` must be a Slack user ID, e.g. `U012AB3CD`');
+  }
+  if (typeof entry.enabled !== 'boolean') {
+    errors.push('`enabled` must be `true` or `false`');
+  }
+  if (
+    entry.schema !== undefined &&
+    (typeof entry.schema !== 'string' || !(entry.schema in listSchemas))
+  ) {
+    errors.push(
+      `\`schema\` must be one of: ${Object.keys(listSchemas).join(', ')}`
+    );
+  }
+
+  errors.forEach((message) => report(message));
+  return errors.length > 0 ? null : entry;
+}
+
+/**
+ * Parses and validates drs.json, dropping entries that fail validation
+ *
+ * @param content - The raw drs.json content
+ * @param folders - List folders in imported_GoogleSheets, or null to skip the check
+ * @throws When the file is not valid JSON or not shaped like drs.json at all
+ */
+export function parseDrsConfig(
+  content: string,
+  folders: string[] | null
+): DrsLoadResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`drs.json is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error('drs.json must be an object with `prod` and `test` keys');
+  }
+
+  const issues: DrsIssue[] = [];
+  const config: DataResourceConfig = { prod: {}, test: {} };
+
+  for (const key of Object.keys(raw)) {
+    if (!ENVIRONMENT_KEYS.includes(key as EnvironmentName)) {
+      issues.push({
+        severity: 'warning',
+        message: `Unknown environment \`${key}\` is ignored`,
+      });
+    }
+  }
+
+  for (const environment of ENVIRONMENT_KEYS) {
+    const section = raw[environment] ?? {};
+    if (!isObject(section)) {
+      issues.push({
+        severity: 'error',
+        environment,
+        message: 'Section must be an object of list names to entries',
+      });
+      continue;
+    }
+
+    for (const [listName, value] of Object.entries(section)) {
+      const report = (
+        message: string,
+        severity: DrsIssue['severity'] = 'error'
+      ) => issues.push({ severity, environment, listName, message });
+
+      const entry = parseEntry(value, report);
+      if (!entry) continue;
+
+      if (folders && !folders.includes(listName)) {
+        report(`No \`imported_GoogleSheets/${listName}\` folder exists`);
+        continue;
+      }
+
+      config[environment][listName] = entry;
+    }
+
+    // A UID shared by two lists would have each reload replace the other
+    const listsByUid = new Map<string, string[]>();
+    for (const [listName, { uid }] of Object.entries(config[environment])) {
+      listsByUid.set(uid, [...(listsByUid.get(uid) || []), listName]);
+    }
+    for (const [uid, listNames] of listsByUid) {
+      if (listNames.length < 2) continue;
+      for (const listName of listNames) {
+        issues.push({
+          severity: 'error',
+          environment,
+          listName,
+          message: `\`${uid}\` is also used by ${listNames
+            .filter((name) => name !== listName)
+            .map((name) => `\`${name}\``)
+            .join(', ')}`,
+        });
+        delete config[environment][listName];
+      }
+    }
+  }
+
+  return { config, drMap: toDataResourceMap(config), issues };
+}
+
+/**
+ * Maps each enabled list to its data resource UID
+ */
+export function toDataResourceMap(config: DataResourceConfig): DataResourceMap {
+  const drMap: DataResourceMap = { prod: {}, test: {} };
+  for (const environment of ENVIRONMENT_KEYS) {
+    for (const [listName, entry] of Object.entries(config[environment])) {
+      if (entry.enabled) drMap[environment][listName] = entry.uid;
+    }
+  }
+  return drMap;
+}
+
+/**
+ * Formats drs.json issues as Slack message lines
+ */
+export function formatDrsIssues(issues: DrsIssue[]): string[] {
+  return issues.map((issue) => {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️';
+    const location = [issue.environment, issue.listName]
+      .filter(Boolean)
+      .join(' → ');
+    return `${icon}  ${location ? `\`${location}\`: ` : ''}${issue.message}`;
+  });
+}
+
+export function getDataResourceConfig(): DataResourceConfig {
+  return currentConfig;
+}
+
+export function setDataResourceConfig(config: DataResourceConfig) {
+  currentConfig = config;
+}
+
+export function getDataResourceEntry(
+  environment: EnvironmentName,
+  listName: string
+): DataResourceEntry | undefined {
+  return currentConfig[environment][listName];
+}
+
+// Helper function to get the validation schema for a list, honouring the
+// schema set in drs.json
+export function getSchemaForList(
+  environment: EnvironmentName,
+  listName: string
+): ListSchema {
+  return getListSchema(
+    getDataResourceEntry(environment, listName)?.schema ?? listName
+  );
+}
@@ -1,22 +1,180 @@
 import { Octokit } from '@octokit/rest';
 import dotenv from 'dotenv';
-import { gunzipSync } from 'zlib';
+import { PassThrough, Readable } from 'stream';
+import { text } from 'stream/consumers';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { setTimeout as sleep } from 'timers/promises';
+import { createGunzip } from 'zlib';
+
+import {
+  DataResourceConfig,
+  DataResourceEntry,
+  DrsLoadResult,
+  parseDrsConfig,
+} from './drs.js';
 
 dotenv.config();
 
 // Initialize GitHub API client (optional token for higher rate limits)
 const octokit = new Octokit({
   auth: process.env.GITHUB_TOKEN, // Optional: add GITHUB_TOKEN to .env for higher rate limits
+  baseUrl: process.env.GITHUB_API_URL, // Optional: for GitHub Enterprise or a local stand-in
 });
 
-// Helper function to fetch file content from GitHub
-export async function getFileContent(
+export type GitHubFileErrorCode =
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TOO_LARGE'
+  | 'DECODE_FAILED'
+  | 'UNAVAILABLE';
+
+/**
+ * Error thrown when a file cannot be fetched from GitHub
+ */
+export class GitHubFileError extends Error {
+  constructor(
+    public readonly code: GitHubFileErrorCode,
+    public readonly path: string,
+    message: string,
+    // Seconds GitHub asked us to wait before retrying
+    public readonly retryAfter?: number,
+    public readonly transient: boolean = false
+  ) {
+    super(message);
+    this.name = 'GitHubFileError';
+  }
+}
+
+// The contents API serves files up to 100 MB through the blob API
+const MAX_BLOB_SIZE = 100 * 1024 * 1024;
+const MAX_FETCH_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1000;
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+// Helper function to describe when a rate limit resets
+function formatRateLimitReset(headers: Record<string, unknown>): string {
+  const reset = Number(headers['x-ratelimit-reset']);
+  return reset ? `, it resets at ${new Date(reset * 1000).toISOString()}` : '';
+}
+
+// Helper function to classify an error from the GitHub API
+function toGitHubFileError(error: unknown, path: string): GitHubFileError {
+  if (error instanceof GitHubFileError) return error;
+
+  const { status, message = String(error) } = error as {
+    status?: number;
+    message?: string;
+  };
+  const headers =
+    (error as { response?: { headers?: Record<string, unknown> } }).response
+      ?.headers || {};
+
+  if (status === 404) {
+    return new GitHubFileError(
+      'NOT_FOUND',
+      path,
+      `\`${path}\` was not found on GitHub`
+    );
+  }
+  if (
+    status === 429 ||
+    (status === 403 &&
+      (headers['x-ratelimit-remaining'] === '0' || /rate limit/i.test(message)))
+  ) {
+    return new GitHubFileError(
+      'RATE_LIMITED',
+      path,
+      `GitHub rate limit reached while fetching \`${path}\`${formatRateLimitReset(
+        headers
+      )}`,
+      Number(headers['retry-after']) || undefined
+    );
+  }
+  if (status === 403 && /too.large/i.test(message)) {
+    return new GitHubFileError(
+      'TOO_LARGE',
+      path,
+      `\`${path}\` is too large to fetch from GitHub`
+    );
+  }
+
+  return new GitHubFileError(
+    'UNAVAILABLE',
+    path,
+    `Failed to fetch \`${path}\` from GitHub${
+      status ? ` (${status})` : ''
+    }: ${message}`,
+    undefined,
+    // Server errors and network failures are worth another try
+    !status || status >= 500
+  );
+}
+
+// Helper function to retry a GitHub request on transient failures
+async function withRetries<T>(
+  path: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (caught) {
+      const error = toGitHubFileError(caught, path);
+
+      // Secondary rate limits ask for a short wait, primary ones can last an hour
+      const retryable =
+        error.transient ||
+        (error.retryAfter !== undefined &&
+          error.retryAfter <= MAX_RETRY_AFTER_SECONDS);
+      if (!retryable || attempt >= MAX_FETCH_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = error.retryAfter
+        ? error.retryAfter * 1000
+        : RETRY_BASE_DELAY * 2 ** (attempt - 1);
+      console.warn(
+        `Fetching ${path} failed (attempt ${attempt}/${MAX_FETCH_ATTEMPTS}), retrying in ${delay}ms: ${error.message}`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// Helper function to decompress a stream if the file is gzipped, reporting
+// corrupt files as a DECODE_FAILED error
+export function decompressIfGzipped(stream: Readable, path: string): Readable {
+  if (!path.endsWith('.csv.gz')) return stream;
+
+  console.log(`Decompressing gzipped file: ${path}`);
+  const gunzip = createGunzip();
+  const output = new PassThrough();
+  stream.on('error', (error) => output.destroy(error));
+  gunzip.on('error', (error) =>
+    output.destroy(
+      new GitHubFileError(
+        'DECODE_FAILED',
+        path,
+        `\`${path}\` could not be decompressed: ${error.message}`
+      )
+    )
+  );
+  return stream.pipe(gunzip).pipe(output);
+}
+
+/**
+ * Opens a stream of a file's content from GitHub, decompressing gzipped files
+ * as they download
+ *
+ * @throws {GitHubFileError} When the file cannot be fetched
+ */
+export async function getFileStream(
   owner: string,
   repo: string,
   path: string,
   ref: string
-): Promise<string | null> {
-  try {
+): Promise<Readable> {
+  const body = await withRetries(path, async () => {
     const response = await octokit.rest.repos.getContent({
       owner,
       repo,
@@ -25,67 +183,149 @@ export async function getFileContent(
     });
 
     // Check if it's a file (not a directory)
-    if ('content' in response.data && response.data.type === 'file') {
-      let content: string;
-
-      // Check if content is available directly (small files)
-      if (response.data.content && response.data.content.trim() !== '') {
-        // Decode base64 content
-        const buffer = Buffer.from(response.data.content, 'base64');
-
-        // Check if file is gzipped based on extension
-        if (path.endsWith('.csv.gz')) {
-          console.log(`Decompressing gzipped file: ${path}`);
-          const decompressed = gunzipSync(buffer);
-          content = decompressed.toString('utf8');
-        } else {
-          content = buffer.toString('utf8');
-        }
-      }
-      // For large files, GitHub provides a download_url instead
-      else if (response.data.download_url) {
-        console.log(
-          `File too large for direct content, downloading from: ${response.data.download_url}`
-        );
-        const downloadResponse = await fetch(response.data.download_url);
-        if (!downloadResponse.ok) {
-          throw new Error(
-            `Failed to download file: ${downloadResponse.status} ${downloadResponse.statusText}`
-          );
-        }
-
-        if (path.endsWith('.csv.gz')) {
-          console.log(`Decompressing large gzipped file: ${path}`);
-          const buffer = Buffer.from(await downloadResponse.arrayBuffer());
-          const decompressed = gunzipSync(buffer);
-          content = decompressed.toString('utf8');
-        } else {
-          content = await downloadResponse.text();
-        }
-      } else {
-        return null;
-      }
+    if (Array.isArray(response.data) || response.data.type !== 'file') {
+      throw new GitHubFileError('NOT_FOUND', path, `\`${path}\` is not a file`);
+    }
 
-      return content;
+    // Small files come with their content inline
+    if (response.data.content && response.data.encoding === 'base64') {
+      return Readable.from([Buffer.from(response.data.content, 'base64')]);
     }
-    return null;
+
+    if (response.data.size > MAX_BLOB_SIZE) {
+      throw new GitHubFileError(
+        'TOO_LARGE',
+        path,
+        `\`${path}\` is ${Math.round(
+          response.data.size / 1024 / 1024
+        )} MB, larger than the 100 MB GitHub serves through its API`
+      );
+    }
+
+    // Larger files are fetched as a raw blob, authenticated like every other
+    // request so private repositories and higher rate limits work
+    console.log(
+      `File too large for direct content, downloading blob ${response.data.sha}`
+    );
+    // With parseSuccessResponseBody off, the body is left as a stream
+    const blob = await octokit.request<NodeReadableStream<Uint8Array>>({
+      method: 'GET',
+      url: '/repos/{owner}/{repo}/git/blobs/{file_sha}',
+      owner,
+      repo,
+      file_sha: response.data.sha,
+      headers: { accept: 'application/vnd.github.raw+json' },
+      request: { parseSuccessResponseBody: false },
+    });
+    return Readable.fromWeb(blob.data);
+  });
+
+  return decompressIfGzipped(body, path);
+}
+
+/**
+ * Fetches a file's content from GitHub
+ *
+ * @throws {GitHubFileError} When the file cannot be fetched
+ */
+export async function getFileContent(
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string> {
+  try {
+    return await text(await getFileStream(owner, repo, path, ref));
   } catch (error) {
     console.error(`Failed to fetch content for ${path}:`, error);
+    throw toGitHubFileError(error, path);
+  }
+}
+
+// Helper function to get the git blob SHA of a file at a given ref
+export async function getFileSha(
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref,
+    });
+    return Array.isArray(response.data) ? null : response.data.sha;
+  } catch (error) {
+    console.error(`Failed to fetch SHA for ${path}:`, error);
     return null;
   }
 }
 
+/**
+ * Resolves a branch name or HEAD to the commit SHA it points at, so a job
+ * loads the same file however long it waits in the queue
+ *
+ * @throws {GitHubFileError} When the commit cannot be found
+ */
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<string> {
+  if (/^[0-9a-f]{40}$/i.test(ref)) return ref;
+
+  return withRetries(ref, async () => {
+    const response = await octokit.request(
+      'GET /repos/{owner}/{repo}/commits/{ref}',
+      {
+        owner,
+        repo,
+        ref,
+        headers: { accept: 'application/vnd.github.sha' },
+      }
+    );
+    // The SHA media type answers with the commit SHA as plain text
+    return String(response.data).trim();
+  });
+}
+
 export type DataResourceMap = {
   prod: Record<string, string>;
   test: Record<string, string>;
 };
 
-// Helper function to load drs.json from GitHub
+// Helper function to list the list folders in imported_GoogleSheets
+export async function listListFolders(
+  owner: string,
+  repo: string,
+  ref?: string
+): Promise<string[] | null> {
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path: 'imported_GoogleSheets',
+      ref,
+    });
+    return Array.isArray(response.data)
+      ? response.data
+          .filter((item) => item.type === 'dir')
+          .map((item) => item.name)
+      : null;
+  } catch (error) {
+    console.error('Failed to list imported_GoogleSheets folders:', error);
+    return null;
+  }
+}
+
+// Helper function to load and validate drs.json from GitHub
 export async function loadDrMap(
   owner: string,
   repo: string,
   ref?: string
-): Promise<DataResourceMap> {
+): Promise<DrsLoadResult> {
   try {
     const content = await getFileContent(
       owner,
@@ -93,32 +333,34 @@ export async function loadDrMap(
       'drs.json',
       ref || 'HEAD'
     );
-    if (!content) {
-      throw new Error('Failed to fetch drs.json content from GitHub');
+
+    // Without the folder listing, skip the folder check rather than fail
+    const folders = await listListFolders(owner, repo, ref || 'HEAD');
+    const result = parseDrsConfig(content, folders);
+
+    for (const issue of result.issues) {
+      console.warn(
+        `drs.json ${issue.severity}: ${[issue.environment, issue.listName]
+          .filter(Boolean)
+          .join('.')} ${issue.message}`
+      );
     }
-    const newDrMap = JSON.parse(content);
 
     console.log('Successfully loaded drs.json from GitHub!');
-    return newDrMap as DataResourceMap;
+    return result;
   } catch (error) {
     throw new Error(`Failed to load drs.json from GitHub: ${error}`);
   }
 }
 
-// Helper function to compare drMaps and format changes for Slack
+// Helper function to compare drs.json configurations and format changes for Slack
 export function formatDrMapChanges(
-  oldDrMap: DataResourceMap,
-  newDrMap: DataResourceMap
+  oldConfig: DataResourceConfig,
+  newConfig: DataResourceConfig
 ): string[] {
   // Delta changes
-  const prodChanges = compareDrMapSection(
-    oldDrMap.prod || {},
-    newDrMap.prod || {}
-  );
-  const testChanges = compareDrMapSection(
-    oldDrMap.test || {},
-    newDrMap.test || {}
-  );
+  const prodChanges = compareDrMapSection(oldConfig.prod, newConfig.prod);
+  const testChanges = compareDrMapSection(oldConfig.test, newConfig.test);
 
   const messages = [
     '🏭  *Production*',
@@ -150,78 +392,211 @@ export function getParentFolderName(filename: string): string | null {
   return null;
 }
 
-// Helper function to find the latest file for a given list name
-export async function findLatestFileForList(
-  listName: string
-): Promise<{ name: string; path: string } | null> {
-  try {
-    const defaultRepo = process.env.GITHUB_REPO!;
-    const [owner, repo] = defaultRepo.split('/');
+// Helper function to pick the newest file for each list from a set of paths
+export function selectLatestFilesByList(files: string[]): Map<string, string> {
+  const latestFiles = new Map<string, string>();
 
-    // Get contents of the list folder
-    const folderPath = `imported_GoogleSheets/${listName}`;
-    const response = await octokit.rest.repos.getContent({
-      owner,
-      repo,
-      path: folderPath,
-    });
+  for (const file of files) {
+    const listName = getParentFolderName(file);
+    if (!listName) continue;
 
-    if (!Array.isArray(response.data)) {
-      console.error(
-        `Expected directory listing for ${folderPath}, got single file`
-      );
-      return null;
+    const current = latestFiles.get(listName);
+    // File names include an ISO timestamp, so the greatest name is the newest
+    if (!current || file.localeCompare(current) > 0) {
+      latestFiles.set(listName, file);
     }
+  }
 
-    // Filter for CSV files and sort by name (which should include timestamp)
-    const csvFiles = response.data
-      .filter(
-        (file) =>
-          file.type === 'file' &&
-          (file.name.endsWith('.csv') || file.name.endsWith('.csv.gz'))
-      )
-      .sort((a, b) => b.name.localeCompare(a.name)); // Sort descending to get latest first
+  return latestFiles;
+}
 
-    if (csvFiles.length === 0) {
-      console.log(`No CSV files found in ${folderPath}`);
-      return null;
-    }
+export type ListFile = {
+  name: string;
+  path: string;
+  sha: string;
+};
 
-    const latestFile = csvFiles[0];
-    console.log(`Found latest file for ${listName}: ${latestFile.name}`);
+// Helper function to list the CSV files for a given list name, newest first.
+// A list folder that doesn't exist has no files, other failures are thrown
+// as a GitHubFileError so they aren't mistaken for an empty list
+export async function listFilesForList(
+  listName: string,
+  ref?: string
+): Promise<ListFile[]> {
+  const defaultRepo = process.env.GITHUB_REPO!;
+  const [owner, repo] = defaultRepo.split('/');
 
-    return {
-      name: latestFile.name,
-      path: latestFile.path,
-    };
+  // Get contents of the list folder
+  const folderPath = `imported_GoogleSheets/${listName}`;
+  let data;
+  try {
+    ({ data } = await withRetries(folderPath, () =>
+      octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path: folderPath,
+        ref,
+      })
+    ));
   } catch (error) {
-    console.error(`Failed to find latest file for ${listName}:`, error);
+    if (error instanceof GitHubFileError && error.code === 'NOT_FOUND') {
+      return [];
+    }
+    console.error(`Failed to list files for ${listName}:`, error);
+    throw error;
+  }
+
+  if (!Array.isArray(data)) {
+    console.error(
+      `Expected directory listing for ${folderPath}, got single file`
+    );
+    return [];
+  }
+
+  // Filter for CSV files and sort by name (which should include timestamp)
+  return data
+    .filter(
+      (file) =>
+        file.type === 'file' &&
+        (file.name.endsWith('.csv') || file.name.endsWith('.csv.gz'))
+    )
+    .sort((a, b) => b.name.localeCompare(a.name)) // Sort descending to get latest first
+    .map((file) => ({ name: file.name, path: file.path, sha: file.sha }));
+}
+
+// Helper function to find the latest file for a given list name, along with
+// the file before it so the two can be compared
+export async function findLatestFileForList(
+  listName: string,
+  ref?: string
+): Promise<(ListFile & { previous: ListFile | null }) | null> {
+  const csvFiles = await listFilesForList(listName, ref);
+
+  if (csvFiles.length === 0) {
+    console.log(`No CSV files found for ${listName}`);
     return null;
   }
+
+  const [latestFile, previousFile] = csvFiles;
+  console.log(`Found latest file for ${listName}: ${latestFile.name}`);
+
+  return { ...latestFile, previous: previousFile || null };
+}
+
+/**
+ * Error thrown when a list file version matches more than one file
+ */
+export class AmbiguousVersionError extends Error {
+  constructor(
+    public readonly version: string,
+    public readonly files: ListFile[]
+  ) {
+    super(
+      `\`${version}\` is an ambiguous version, it matches ${files
+        .map((file) => `\`${file.name}\``)
+        .join(', ')}`
+    );
+    this.name = 'AmbiguousVersionError';
+  }
+}
+
+// Timestamp in a list file name, with ':' and '.' written as '-' in most
+const FILE_TIMESTAMP =
+  /\d{4}-\d{2}-\d{2}T\d{2}[-:]\d{2}[-:]\d{2}(?:[-.]\d+)?Z?/;
+
+// Helper function to write a timestamp the way file names do
+function normaliseTimestamp(timestamp: string): string {
+  return timestamp.replace(/[:.]/g, '-');
+}
+
+// Helper function to find a list file by its full timestamp, blob SHA (at
+// least 7 characters) or commit SHA, returning the file along with the ref to
+// fetch it at
+export async function findListFileVersion(
+  listName: string,
+  version: string
+): Promise<{ file: ListFile; ref: string } | null> {
+  const csvFiles = await listFilesForList(listName);
+  const isSha = /^[0-9a-f]{7,40}$/i.test(version);
+
+  // Accept ISO timestamps as typed, but only the whole timestamp
+  const timestamp = normaliseTimestamp(version);
+  const matches = csvFiles.filter((file) => {
+    const fileTimestamp = file.name.match(FILE_TIMESTAMP)?.[0];
+    return (
+      (fileTimestamp && normaliseTimestamp(fileTimestamp) === timestamp) ||
+      (isSha && file.sha.startsWith(version.toLowerCase()))
+    );
+  });
+  if (matches.length > 1) {
+    throw new AmbiguousVersionError(version, matches);
+  }
+  if (matches.length === 1) {
+    return { file: matches[0], ref: 'HEAD' };
+  }
+
+  // Otherwise treat it as a commit and use the latest file as of that commit
+  if (isSha) {
+    const latestAtCommit = await findLatestFileForList(listName, version);
+    if (latestAtCommit) {
+      const { previous, ...file } = latestAtCommit;
+      return { file, ref: version };
+    }
+  }
+
+  return null;
+}
+
+// Helper function to find the file that came before a given file in its list
+export async function findPreviousFile(
+  listName: string,
+  path: string,
+  ref?: string
+): Promise<ListFile | null> {
+  const csvFiles = await listFilesForList(listName, ref);
+  return csvFiles.find((file) => file.path.localeCompare(path) < 0) || null;
 }
 
-// Helper function to compare a section of drMap
+// Helper function to compare a section of drs.json
 function compareDrMapSection(
-  oldSection: Record<string, string>,
-  newSection: Record<string, string>
+  oldSection: Record<string, DataResourceEntry>,
+  newSection: Record<string, DataResourceEntry>
 ): string[] {
   const changes: string[] = [];
 
   // Check for additions and modifications
-  for (const [key, value] of Object.entries(newSection)) {
-    if (!(key in oldSection)) {
-      changes.push(`Added: \`${key}\` → \`${value}\``);
-    } else if (oldSection[key] !== value) {
+  for (const [key, entry] of Object.entries(newSection)) {
+    const oldEntry = oldSection[key];
+    if (!oldEntry) {
+      changes.push(
+        `Added: \`${key}\` → \`${entry.uid}\`${
+          entry.enabled ? '' : ' (disabled)'
+        }`
+      );
+      continue;
+    }
+
+    if (oldEntry.uid !== entry.uid) {
       changes.push(
-        `Changed: \`${key}\` → \`${oldSection[key]}\` to \`${value}\``
+        `Changed: \`${key}\` → \`${oldEntry.uid}\` to \`${entry.uid}\``
       );
     }
+    if (oldEntry.enabled !== entry.enabled) {
+      changes.push(`${entry.enabled ? 'Enabled' : 'Disabled'}: \`${key}\``);
+    }
+
+    const updated = (['displayName', 'owner', 'schema'] as const).filter(
+      (field) => oldEntry[field] !== entry[field]
+    );
+    if (updated.length > 0) {
+      changes.push(`Updated: \`${key}\` → ${updated.join(', ')}`);
+    }
   }
 
   // Check for removals
-  for (const [key, value] of Object.entries(oldSection)) {
+  for (const [key, entry] of Object.entries(oldSection)) {
     if (!(key in newSection)) {
-      changes.push(`Removed: \`${key}\` (was \`${value}\`)`);
+      changes.push(`Removed: \`${key}\` (was \`${entry.uid}\`)`);
     }
   }
 
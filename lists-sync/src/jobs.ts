@@ -0,0 +1,934 @@
+import { randomUUID } from 'crypto';
+import dotenv from 'dotenv';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+import {
+  ProgressResponse,
+  getAlaClient,
+  getAlaRetryTime,
+  isAlaAvailable,
+  isAlaOutageError,
+  onCircuitChange,
+} from './ala.js';
+import { AuditEntry, recordAuditEntry } from './audit.js';
+import { DATA_DIR, EnvironmentName, getEnvironment } from './config.js';
+import { formatDiffCsv, formatDiffSummary } from './diff.js';
+import { getDataResourceEntry } from './drs.js';
+import { GitHubFileError, getFileSha, getFileStream } from './github.js';
+import { reloadList } from './lists.js';
+import {
+  buildNameMatchReport,
+  formatNameMatchCsv,
+  formatNameMatchSummary,
+  saveNameMatchReport,
+} from './matching.js';
+import { clearPin, setPin } from './pins.js';
+import { diffWithPreviousFile } from './preview.js';
+import { ValidationError, formatValidationReport } from './validation.js';
+import {
+  IngestionBaseline,
+  VerificationError,
+  VerificationReport,
+  formatVerificationReport,
+  verifyIngestion,
+} from './verification.js';
+import {
+  createApprovalActions,
+  createCancelActions,
+  createMessageBlocks,
+  sendSlackNotification,
+  updateReloadMessage,
+  uploadSlackFile,
+} from './slack.js';
+
+dotenv.config();
+
+export type JobState =
+  | 'awaiting_approval'
+  | 'queued'
+  | 'uploading'
+  | 'ingesting'
+  | 'completed'
+  | 'failed'
+  | 'rejected'
+  | 'abandoned';
+
+export interface SlackMessageRef {
+  channel: string;
+  ts: string;
+}
+
+export interface ReloadTrigger {
+  // What asked for the reload
+  source: 'push' | 'command' | 'rollback' | 'promotion' | 'drift';
+  // Slack user ID of whoever ran the command
+  userId?: string;
+  // GitHub login of whoever pushed the file
+  pushedBy?: string;
+}
+
+export interface ReloadJobRequest {
+  listName: string;
+  dataResourceUid: string;
+  // Name of the ALA Lists environment to reload the list in
+  environment: EnvironmentName;
+  owner: string;
+  repo: string;
+  path: string;
+  ref: string;
+  // Git blob SHA of the file, resolved when the job runs if not known up front
+  sha?: string;
+  // Wait for approval even if the environment does not require it
+  requireApproval?: boolean;
+  // Slack status message contents
+  title: string;
+  messages: string[];
+  gitHubLink?: string;
+  alaLink?: string;
+  // Existing Slack message to keep updating, a new one is posted if omitted
+  slackMessage?: SlackMessageRef;
+  // GitHub webhook delivery that queued the reload, if any
+  deliveryId?: string;
+  trigger?: ReloadTrigger;
+  // Pin change made once the file has loaded, by a Slack user ID
+  pin?: { action: 'set' | 'clear'; userId: string };
+}
+
+export interface ReloadJob extends ReloadJobRequest {
+  id: string;
+  state: JobState;
+  speciesListID?: string;
+  // What the list should hold once ingestion finishes, checked afterwards
+  baseline?: IngestionBaseline;
+  // What ALA held once the reload finished, to spot later changes in ALA
+  ingested?: { version: number; rowCount: number };
+  error?: string;
+  // Slack user IDs of whoever approved or rejected the reload
+  approvedBy?: string;
+  rejectedBy?: string;
+  // Slack user ID of whoever cancelled the reload
+  abandonedBy?: string;
+  createdAt: number;
+  // When the job first started running, after any queueing or approval
+  startedAt?: number;
+  updatedAt: number;
+}
+
+// Configuration constants
+const JOURNAL_PATH = path.join(DATA_DIR, 'jobs.jsonl');
+const MAX_CONCURRENT_RELOADS = Number(process.env.MAX_CONCURRENT_RELOADS) || 2;
+const MAX_FINISHED_JOBS = 500; // Finished jobs kept when compacting the journal
+const DRAIN_TIMEOUT = 30000; // 30 seconds
+const PROGRESS_REPORT_INTERVAL = 15000; // Slack progress updates at most every 15 seconds
+const PROGRESS_BAR_WIDTH = 20;
+
+const jobs = new Map<string, ReloadJob>();
+const activeJobs = new Map<string, Promise<void>>();
+// Aborts running jobs once a shutdown's drain deadline passes
+const shutdownController = new AbortController();
+// Set when shutting down, so no new jobs are started
+let draining = false;
+// Cancels a running job when its Cancel button is pressed
+const jobControllers = new Map<string, AbortController>();
+
+// Latest ingestion progress of running jobs, and when it was last shown in Slack
+const ingestionProgress = new Map<
+  string,
+  { progress: ProgressResponse; reportedAt: number }
+>();
+
+// Serialises journal writes so snapshots are appended in order
+let journalWrite: Promise<void> = Promise.resolve();
+
+// Wakes the queue when a paused environment takes requests again
+let queueRetryTimer: NodeJS.Timeout | undefined;
+
+// Slack alerts for environments whose ALA is down, updated when it recovers
+const outageAlerts = new Map<
+  EnvironmentName,
+  {
+    message: SlackMessageRef;
+    updateBlocks: ReturnType<typeof createMessageBlocks>;
+  }
+>();
+
+// Helper function to check whether a job has stopped for good
+export function isFinished(job: ReloadJob): boolean {
+  return (
+    job.state === 'completed' ||
+    job.state === 'failed' ||
+    job.state === 'rejected' ||
+    job.state === 'abandoned'
+  );
+}
+
+// Helper function to forget the oldest finished jobs, so a long-running
+// service doesn't keep every job it has ever run in memory
+function pruneFinishedJobs() {
+  const finished = Array.from(jobs.values())
+    .filter(isFinished)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+    jobs.delete(job.id);
+  }
+}
+
+// Helper function to format a duration in seconds as e.g. "1h 5m" or "3m 20s"
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
+
+// Helper function to format ingestion progress as a progress bar with the
+// MongoDB and Elasticsearch counts, elapsed time and an estimate of the rest
+function formatIngestionProgress(progress: ProgressResponse): string {
+  const { rowCount, mongoTotal, elasticTotal } = progress;
+  const fraction =
+    rowCount > 0
+      ? Math.min((mongoTotal + elasticTotal) / (rowCount * 2), 1)
+      : 0;
+  const filled = Math.round(fraction * PROGRESS_BAR_WIDTH);
+  const elapsed = Math.max((Date.now() - progress.started) / 1000, 0);
+
+  const eta =
+    fraction > 0 && fraction < 1
+      ? `about ${formatDuration((elapsed * (1 - fraction)) / fraction)} left`
+      : 'estimating time left...';
+
+  return [
+    `\`${'█'.repeat(filled)}${'░'.repeat(
+      PROGRESS_BAR_WIDTH - filled
+    )}\` ${Math.round(fraction * 100)}%`,
+    `MongoDB ${mongoTotal.toLocaleString()}/${rowCount.toLocaleString()}, ` +
+      `Elasticsearch ${elasticTotal.toLocaleString()}/${rowCount.toLocaleString()}`,
+    `${formatDuration(elapsed)} elapsed, ${eta}`,
+  ].join('\n');
+}
+
+// Helper function to render the job's Slack status message
+function renderJobBlocks(job: ReloadJob) {
+  const updateBlocks = createMessageBlocks(
+    job.title,
+    [...job.messages],
+    job.gitHubLink,
+    job.alaLink
+  );
+
+  if (job.state === 'awaiting_approval') {
+    return [...updateBlocks(), createApprovalActions(job.id)];
+  }
+  if (job.state !== 'ingesting') {
+    return updateBlocks();
+  }
+
+  // Ingestion progress is shown below the log until the job finishes
+  const progress = ingestionProgress.get(job.id)?.progress;
+  return [
+    ...updateBlocks(),
+    ...(progress
+      ? [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: formatIngestionProgress(progress) },
+          } as const,
+        ]
+      : []),
+    createCancelActions(job.id),
+  ];
+}
+
+// Helper function to append a job snapshot to the journal
+function persistJob(job: ReloadJob): Promise<void> {
+  job.updatedAt = Date.now();
+  const line = `${JSON.stringify(job)}\n`;
+
+  journalWrite = journalWrite
+    .then(() => appendFile(JOURNAL_PATH, line))
+    .catch((error) => {
+      console.error(`Failed to persist job ${job.id}:`, error);
+    });
+
+  return journalWrite;
+}
+
+// Helper function to redraw the job's Slack status message
+async function refreshJobMessage(job: ReloadJob): Promise<void> {
+  if (!job.slackMessage) return;
+
+  try {
+    await updateReloadMessage(job.slackMessage, renderJobBlocks(job));
+  } catch (error) {
+    console.error(`Failed to update Slack message for job ${job.id}:`, error);
+  }
+}
+
+// Helper function to append a line to the job's Slack status message
+async function reportJob(job: ReloadJob, message: string): Promise<void> {
+  job.messages.push(message);
+  await persistJob(job);
+  await refreshJobMessage(job);
+}
+
+// Helper function to show an ingestion progress check in Slack, throttled so
+// long ingestions don't hit Slack's rate limits
+async function reportProgress(
+  job: ReloadJob,
+  progress: ProgressResponse
+): Promise<void> {
+  const reportedAt = ingestionProgress.get(job.id)?.reportedAt ?? 0;
+  const due = Date.now() - reportedAt >= PROGRESS_REPORT_INTERVAL;
+  ingestionProgress.set(job.id, {
+    progress,
+    reportedAt: due ? Date.now() : reportedAt,
+  });
+
+  if (due && !progress.completed) {
+    await refreshJobMessage(job);
+  }
+}
+
+// Helper function to work out who a finished job is recorded against in the
+// audit log
+function getJobActor(job: ReloadJob): Pick<AuditEntry, 'actorType' | 'actor'> {
+  const { trigger } = job;
+  if (trigger?.userId) {
+    return { actorType: 'slack', actor: trigger.userId };
+  }
+  if (trigger?.source === 'push') {
+    return { actorType: 'github', actor: trigger.pushedBy || 'unknown' };
+  }
+  return { actorType: 'service', actor: trigger?.source || 'unknown' };
+}
+
+// Helper function to record a finished job's outcome in the audit log
+function auditJob(job: ReloadJob): Promise<void> {
+  const details = [
+    job.approvedBy && `Approved by ${job.approvedBy}`,
+    job.rejectedBy && `Rejected by ${job.rejectedBy}`,
+    job.abandonedBy && `Cancelled by ${job.abandonedBy}`,
+    job.error,
+  ].filter(Boolean);
+
+  return recordAuditEntry({
+    action: job.trigger?.source === 'rollback' ? 'rollback' : 'reload',
+    ...getJobActor(job),
+    trigger: job.trigger?.source,
+    listName: job.listName,
+    environment: job.environment,
+    dataResourceUid: job.dataResourceUid,
+    path: job.path,
+    ref: job.ref,
+    sha: job.sha,
+    versionBefore: job.baseline?.previousVersion,
+    versionAfter: job.ingested?.version,
+    outcome: job.state,
+    details: details.length > 0 ? details.join('; ') : undefined,
+  });
+}
+
+async function transitionJob(
+  job: ReloadJob,
+  state: JobState,
+  message: string
+): Promise<void> {
+  console.log(`Job ${job.id} (${job.listName}): ${job.state} → ${state}`);
+  job.state = state;
+  if (isFinished(job)) {
+    await auditJob(job);
+    pruneFinishedJobs();
+  }
+  await reportJob(job, message);
+}
+
+/**
+ * Compares the job's file with the previous file for the list and reports
+ * the summary, attaching the full diff to the Slack thread
+ */
+async function reportDiff(
+  job: ReloadJob,
+  openFile: () => Promise<Readable>
+): Promise<void> {
+  try {
+    const comparison = await diffWithPreviousFile(
+      job.owner,
+      job.repo,
+      job.listName,
+      job.path,
+      job.ref,
+      openFile
+    );
+    if (!comparison) {
+      await reportJob(job, `🧮  No previous file to compare against`);
+      return;
+    }
+
+    const { previousFile, diff } = comparison;
+    await reportJob(job, formatDiffSummary(diff, previousFile.name).join('\n'));
+
+    if (job.slackMessage) {
+      await uploadSlackFile(
+        job.slackMessage,
+        `${job.listName}_diff.csv`,
+        formatDiffCsv(diff),
+        `Changes to ${job.listName} since ${previousFile.name}`
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to diff ${job.path}:`, error);
+    await reportJob(
+      job,
+      `⚠️  Could not compare with the previous file: ${error}`
+    );
+  }
+}
+
+/**
+ * Reads the ingested list back from ALA and reports how its names matched,
+ * attaching the problem names to the Slack thread and keeping the report for
+ * the list version
+ */
+async function reportNameMatching(job: ReloadJob): Promise<void> {
+  try {
+    const report = await buildNameMatchReport(
+      getAlaClient(getEnvironment(job.environment)),
+      job.listName,
+      job.dataResourceUid
+    );
+    await saveNameMatchReport(report);
+    await reportJob(job, formatNameMatchSummary(report).join('\n'));
+
+    if (job.slackMessage && report.issues.length > 0) {
+      await uploadSlackFile(
+        job.slackMessage,
+        `${job.listName}_v${report.version}_name_matching.csv`,
+        formatNameMatchCsv(report),
+        `Names in ${job.listName} v${report.version} that did not match cleanly`
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to report name matching for ${job.path}:`, error);
+    await reportJob(
+      job,
+      `⚠️  Could not build the name matching report: ${error}`
+    );
+  }
+}
+
+/**
+ * Runs a single reload job, resuming ingestion polling if it was interrupted
+ */
+async function runJob(job: ReloadJob): Promise<void> {
+  const cancelController = new AbortController();
+  jobControllers.set(job.id, cancelController);
+  const signal = AbortSignal.any([
+    shutdownController.signal,
+    cancelController.signal,
+  ]);
+  job.startedAt ??= Date.now();
+  const onProgress = (progress: ProgressResponse) =>
+    reportProgress(job, progress);
+  // Failed verifications are reported with the failure instead
+  const onVerified = async (report: VerificationReport) => {
+    job.ingested = { version: report.version, rowCount: report.rowCount };
+    if (report.verified) {
+      await reportJob(job, formatVerificationReport(report).join('\n'));
+    }
+  };
+
+  try {
+    const environment = getEnvironment(job.environment);
+
+    if (job.state === 'ingesting' && job.speciesListID) {
+      await reportJob(
+        job,
+        `🔁  Resuming ingestion monitoring after restart...`
+      );
+      const client = getAlaClient(environment);
+      const progress = await client.waitForIngestion(
+        job.speciesListID,
+        signal,
+        onProgress
+      );
+
+      if (job.baseline) {
+        const report = await verifyIngestion(
+          client,
+          job.dataResourceUid,
+          job.baseline,
+          progress
+        );
+        await onVerified(report);
+        if (!report.verified) {
+          throw new VerificationError(report);
+        }
+      }
+    } else {
+      // The diff and the upload each stream the file, so large files are
+      // never held in memory
+      const openFile = () =>
+        getFileStream(job.owner, job.repo, job.path, job.ref);
+
+      job.sha ??=
+        (await getFileSha(job.owner, job.repo, job.path, job.ref)) || undefined;
+      await reportDiff(job, openFile);
+
+      console.log(`Calling reloadList for folder: ${job.listName}`);
+      await reloadList(
+        job.listName,
+        await openFile(),
+        job.dataResourceUid,
+        environment,
+        {
+          signal,
+          onProgress,
+          onVerified,
+          onValidated: async (report) => {
+            if (report.valid) {
+              await reportJob(job, formatValidationReport(report).join('\n'));
+            }
+          },
+          onUploadStarted: () =>
+            transitionJob(
+              job,
+              'uploading',
+              `🚀  Starting list reload process...`
+            ),
+          onIngestionStarted: (speciesListID, baseline) => {
+            job.speciesListID = speciesListID;
+            job.baseline = baseline;
+            return transitionJob(
+              job,
+              'ingesting',
+              `⏳  File uploaded, waiting for ALA to finish ingesting...`
+            );
+          },
+        }
+      );
+    }
+
+    await reportNameMatching(job);
+    await applyPinChange(job);
+    await transitionJob(
+      job,
+      'completed',
+      `✅  List reload completed successfully!`
+    );
+  } catch (error) {
+    if (shutdownController.signal.aborted) {
+      console.log(`Job ${job.id} interrupted by shutdown in '${job.state}'`);
+      return;
+    }
+
+    if (cancelController.signal.aborted) {
+      console.log(`Job ${job.id} cancelled by ${job.abandonedBy}`);
+      await transitionJob(
+        job,
+        'abandoned',
+        job.state === 'ingesting'
+          ? `🛑  Cancelled by <@${job.abandonedBy}>, stopped monitoring ingestion. ALA may still finish ingesting the file.`
+          : `🛑  Cancelled by <@${job.abandonedBy}>`
+      );
+      return;
+    }
+
+    // Reloads that ALA hasn't started ingesting wait out an outage in the
+    // queue, any other failure fails the job even while ALA is down
+    if (
+      job.state !== 'ingesting' &&
+      isAlaOutageError(error) &&
+      !isAlaAvailable(job.environment)
+    ) {
+      console.log(`Job ${job.id} requeued while ALA is unavailable: ${error}`);
+      await transitionJob(
+        job,
+        'queued',
+        `⏸️  ALA Lists is unavailable, reload requeued until it recovers...`
+      );
+      return;
+    }
+
+    console.error(`Failed to reload list for ${job.path}:`, error);
+    job.error = String(error);
+
+    // Let the list's curator know, if drs.json names one
+    const owner = getDataResourceEntry(job.environment, job.listName)?.owner;
+    if (owner) {
+      job.messages.push(`👤  <@${owner}> please take a look`);
+    }
+
+    await transitionJob(
+      job,
+      'failed',
+      error instanceof ValidationError
+        ? `❌  List reload failed for: *${job.listName}*, the file did not pass validation\n\n${error.message}`
+        : error instanceof VerificationError
+        ? `❌  List reload failed verification for: *${job.listName}*, ALA does not hold what was uploaded\n\n${error.message}`
+        : error instanceof GitHubFileError
+        ? `❌  List reload failed for: *${job.listName}*, the file could not be fetched from GitHub (\`${error.code}\`)\n\n${error.message}`
+        : `❌  List reload failed for: *${job.listName}*\n\n*Error:* ${error}`
+    );
+  }
+}
+
+// Helper function to pin a rolled back list to the file it loaded, or lift
+// the pin, only once the reload has succeeded
+async function applyPinChange(job: ReloadJob) {
+  if (job.pin?.action === 'set') {
+    await setPin({
+      listName: job.listName,
+      environment: job.environment,
+      path: job.path,
+      sha: job.sha,
+      pinnedBy: job.pin.userId,
+      pinnedAt: Date.now(),
+    });
+  } else if (job.pin?.action === 'clear') {
+    await clearPin(job.environment, job.listName);
+  }
+}
+
+// Helper function to start queued jobs while there is capacity
+function processQueue() {
+  if (draining) return;
+
+  const queued = Array.from(jobs.values())
+    .filter((job) => job.state === 'queued')
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const job of queued) {
+    if (activeJobs.size >= MAX_CONCURRENT_RELOADS) break;
+
+    // Only one reload per list at a time, so newer files land last
+    const listBusy = Array.from(activeJobs.keys()).some((id) => {
+      const activeJob = jobs.get(id);
+      return (
+        activeJob?.listName === job.listName &&
+        activeJob.environment === job.environment
+      );
+    });
+    if (listBusy) continue;
+
+    if (!isAlaAvailable(job.environment)) {
+      scheduleQueueRetry(job.environment);
+      continue;
+    }
+
+    startJob(job);
+  }
+}
+
+// Helper function to run the queue again once ALA takes requests again
+function scheduleQueueRetry(environment: EnvironmentName) {
+  if (queueRetryTimer) return;
+
+  const retryAt = getAlaRetryTime(environment) ?? Date.now();
+  queueRetryTimer = setTimeout(() => {
+    queueRetryTimer = undefined;
+    processQueue();
+  }, retryAt - Date.now());
+  queueRetryTimer.unref();
+}
+
+// Post one alert when ALA starts failing, and resume the queue when it's back
+onCircuitChange(async (environment, event, { error }) => {
+  if (event === 'opened') {
+    const updateBlocks = createMessageBlocks(
+      `ALA Lists unavailable (${environment})`,
+      [
+        `🔌  Requests to the ALA Lists API keep failing: ${error}`,
+        `⏸️  Reloads in *${environment}* are paused and resume automatically once ALA responds again`,
+      ]
+    );
+    const message = await sendSlackNotification(updateBlocks());
+    outageAlerts.set(environment, {
+      message: { channel: message.channel!, ts: message.ts! },
+      updateBlocks,
+    });
+    return;
+  }
+
+  processQueue();
+
+  const alert = outageAlerts.get(environment);
+  outageAlerts.delete(environment);
+  if (alert) {
+    await updateReloadMessage(
+      alert.message,
+      alert.updateBlocks(`✅  ALA is responding again, reloads have resumed`)
+    );
+  }
+});
+
+function startJob(job: ReloadJob) {
+  const run = runJob(job).finally(() => {
+    activeJobs.delete(job.id);
+    jobControllers.delete(job.id);
+    ingestionProgress.delete(job.id);
+    processQueue();
+  });
+
+  activeJobs.set(job.id, run);
+}
+
+/**
+ * Adds a reload job to the persistent queue and posts its Slack status message.
+ * Jobs for environments that require approval wait for an Approve button press.
+ */
+export async function enqueueReload(
+  request: ReloadJobRequest
+): Promise<ReloadJob> {
+  const now = Date.now();
+  const requiresApproval =
+    request.requireApproval ||
+    getEnvironment(request.environment).requiresApproval;
+  const job: ReloadJob = {
+    ...request,
+    messages: requiresApproval
+      ? [
+          ...request.messages,
+          `🔐  Reloads in *${request.environment}* need approval before they run`,
+        ]
+      : [...request.messages],
+    id: randomUUID(),
+    state: requiresApproval ? 'awaiting_approval' : 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (job.slackMessage) {
+    await updateReloadMessage(job.slackMessage, renderJobBlocks(job));
+  } else {
+    const message = await sendSlackNotification(renderJobBlocks(job));
+    job.slackMessage = { channel: message.channel!, ts: message.ts! };
+  }
+
+  jobs.set(job.id, job);
+  await persistJob(job);
+  console.log(
+    `Created reload job ${job.id} for ${job.listName} (${job.environment}): ${job.state}`
+  );
+
+  processQueue();
+  return job;
+}
+
+/**
+ * Finds the most recent successful reload of a list in an environment, which
+ * tells us which file ALA currently holds
+ */
+export function findLastCompletedJob(
+  listName: string,
+  environment: EnvironmentName
+): ReloadJob | null {
+  return Array.from(jobs.values())
+    .filter(
+      (job) =>
+        job.state === 'completed' &&
+        job.listName === listName &&
+        job.environment === environment
+    )
+    .reduce<ReloadJob | null>(
+      (latest, job) =>
+        !latest || job.updatedAt > latest.updatedAt ? job : latest,
+      null
+    );
+}
+
+// Helper function to list the most recent reloads of a list in an environment
+export function listJobsForList(
+  listName: string,
+  environment: EnvironmentName,
+  limit: number = 10
+): ReloadJob[] {
+  return Array.from(jobs.values())
+    .filter(
+      (job) => job.listName === listName && job.environment === environment
+    )
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit);
+}
+
+export function getJob(jobId: string): ReloadJob | undefined {
+  return jobs.get(jobId);
+}
+
+// Helper function to list the reloads queued by a webhook delivery
+export function findJobsForDelivery(deliveryId: string): ReloadJob[] {
+  return Array.from(jobs.values()).filter(
+    (job) => job.deliveryId === deliveryId
+  );
+}
+
+// Helper function to find a job that is waiting for approval
+function getJobAwaitingApproval(jobId: string): ReloadJob {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Reload job not found: ${jobId}`);
+  }
+  if (job.state !== 'awaiting_approval') {
+    throw new Error(`Reload job is no longer awaiting approval (${job.state})`);
+  }
+  return job;
+}
+
+/**
+ * Approves a job that is awaiting approval, moving it into the queue
+ */
+export async function approveJob(
+  jobId: string,
+  userId: string
+): Promise<ReloadJob> {
+  const job = getJobAwaitingApproval(jobId);
+  job.approvedBy = userId;
+  console.log(
+    `Job ${job.id} approved by ${userId} for ${job.path}${
+      job.sha ? ` (${job.sha})` : ''
+    }`
+  );
+  await transitionJob(
+    job,
+    'queued',
+    `👍  Approved by <@${userId}>${
+      job.sha ? ` for file SHA \`${job.sha}\`` : ''
+    }, queued...`
+  );
+
+  processQueue();
+  return job;
+}
+
+/**
+ * Rejects a job that is awaiting approval
+ */
+export async function rejectJob(
+  jobId: string,
+  userId: string
+): Promise<ReloadJob> {
+  const job = getJobAwaitingApproval(jobId);
+  job.rejectedBy = userId;
+  await transitionJob(job, 'rejected', `👎  Rejected by <@${userId}>`);
+  return job;
+}
+
+/**
+ * Cancels a job whose ingestion is being monitored, leaving ALA to finish or
+ * fail the ingestion on its own
+ */
+export async function abandonJob(
+  jobId: string,
+  userId: string
+): Promise<ReloadJob> {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Reload job not found: ${jobId}`);
+  }
+
+  const controller = jobControllers.get(job.id);
+  if (job.state !== 'ingesting' || !controller) {
+    throw new Error(`Reload job is not waiting on ingestion (${job.state})`);
+  }
+
+  job.abandonedBy = userId;
+  controller.abort();
+  await activeJobs.get(job.id);
+  return job;
+}
+
+/**
+ * Loads the job journal and resumes any jobs left unfinished by a restart
+ */
+export async function resumeJobs(): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+
+  let journal = '';
+  try {
+    journal = await readFile(JOURNAL_PATH, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  // The last snapshot for each job id wins
+  for (const line of journal.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const job = JSON.parse(line) as ReloadJob;
+      jobs.set(job.id, job);
+    } catch (error) {
+      console.warn(`Skipping corrupt job journal entry: ${line}`);
+    }
+  }
+
+  // Compact the journal, dropping the oldest finished jobs
+  pruneFinishedJobs();
+  await writeFile(
+    JOURNAL_PATH,
+    Array.from(jobs.values())
+      .map((job) => `${JSON.stringify(job)}\n`)
+      .join('')
+  );
+
+  const unfinished = Array.from(jobs.values()).filter(
+    (job) => !isFinished(job)
+  );
+  console.log(`Loaded ${jobs.size} jobs, ${unfinished.length} unfinished`);
+
+  for (const job of unfinished) {
+    if (job.state === 'uploading') {
+      // The upload never reached ingestion, so start again from the file
+      await transitionJob(
+        job,
+        'queued',
+        `🔁  Service restarted during upload, requeued reload...`
+      );
+    }
+  }
+
+  // Re-poll ingestions that ALA may still be working on
+  for (const job of unfinished) {
+    if (job.state === 'ingesting' && job.speciesListID) {
+      startJob(job);
+    } else if (job.state === 'ingesting') {
+      await transitionJob(job, 'queued', `🔁  Service restarted, requeued...`);
+    }
+  }
+
+  processQueue();
+}
+
+/**
+ * Stops starting new jobs and waits for in-flight jobs to finish. Jobs still
+ * running at the deadline are aborted, leaving them in the journal for
+ * resumeJobs to requeue or pick up ingestion polling again.
+ */
+export async function drainJobs(): Promise<void> {
+  draining = true;
+
+  if (activeJobs.size > 0) {
+    console.log(`Draining ${activeJobs.size} in-flight job(s)...`);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, DRAIN_TIMEOUT);
+      timer.unref();
+    });
+    await Promise.race([Promise.all(activeJobs.values()), timeout]);
+    clearTimeout(timer);
+  }
+
+  if (activeJobs.size > 0) {
+    console.log(
+      `Aborting ${activeJobs.size} job(s) still running after ${
+        DRAIN_TIMEOUT / 1000
+      }s`
+    );
+  }
+  shutdownController.abort();
+  await journalWrite;
+}
@@ -1,273 +1,166 @@
-import JSZip from 'jszip';
-
-interface DrMap {
-  prod: Record<string, string>;
-  test: Record<string, string>;
-}
-
-interface SpeciesListResponse {
-  id: string;
-  dataResourceUid: string;
-  title: string;
-  version: number;
-  rowCount: number;
-}
-
-interface UploadResponse {
-  localFile: string;
-  rowCount: number;
-  fieldList: string[];
-  originalFieldNames: string[];
-  validationErrors: string[] | null;
-}
-
-interface ProgressResponse {
-  id: string;
-  speciesListID: string;
-  completed: boolean;
-  rowCount: number;
-  mongoTotal: number;
-  elasticTotal: number;
-  started: number;
+import archiver from 'archiver';
+import { Hash, createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PassThrough, Readable, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+
+import {
+  AlaListsClient,
+  ProgressResponse,
+  SpeciesListResponse,
+  UploadResponse,
+  getAlaClient,
+} from './ala.js';
+import { ListsEnvironment } from './config.js';
+import { getSchemaForList } from './drs.js';
+import {
+  CsvSource,
+  CsvValidationStream,
+  ValidationError,
+  ValidationReport,
+  toCsvStream,
+} from './validation.js';
+import {
+  IngestionBaseline,
+  VerificationError,
+  VerificationReport,
+  verifyIngestion,
+} from './verification.js';
+
+interface ZipFile {
+  path: string;
+  size: number;
 }
 
-interface OAuth2TokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  scope: string;
+export interface ReloadOptions {
+  // Called with the local validation report before anything is uploaded
+  onValidated?: (report: ValidationReport) => Promise<void>;
+  // Called before the file is uploaded to the Lists API
+  onUploadStarted?: () => Promise<void>;
+  // Called once ALA has accepted the file and started ingesting it, with
+  // what the list should hold once ingestion finishes
+  onIngestionStarted?: (
+    speciesListID: string,
+    baseline: IngestionBaseline
+  ) => Promise<void>;
+  // Called with each ingestion progress check
+  onProgress?: (progress: ProgressResponse) => Promise<void>;
+  // Called with the post-ingest verification report
+  onVerified?: (report: VerificationReport) => Promise<void>;
+  // Aborts progress polling, leaving the ingestion running on ALA
+  signal?: AbortSignal;
 }
 
-interface CachedToken {
-  access_token: string;
-  expires_at: number;
+// Helper function to hash content as it streams past
+function createHashStream(hash: Hash): PassThrough {
+  const stream = new PassThrough();
+  stream.on('data', (chunk) => hash.update(chunk));
+  return stream;
 }
 
-// Configuration constants
-const PROGRESS_CHECK_INTERVAL = 5000; // 5 seconds
-const MAX_PROGRESS_ATTEMPTS = 500;
-const MAX_WAIT_TIME_SECONDS =
-  MAX_PROGRESS_ATTEMPTS * (PROGRESS_CHECK_INTERVAL / 1000);
-
-// Token cache to avoid unnecessary OAuth2 requests
-let cachedToken: CachedToken | null = null;
-
 /**
- * Gets a valid access token, either from cache or by fetching a new one
+ * Hashes CSV content the same way reloads hash the files they upload, so
+ * files can be compared with what was loaded into ALA
  */
-async function getAccessToken(): Promise<string> {
-  // Check if we have a cached token that's still valid (with 5 minute buffer)
-  const now = Date.now();
-  const bufferMs = 5 * 60 * 1000; // 5 minutes buffer
-
-  if (cachedToken && now < cachedToken.expires_at - bufferMs) {
-    console.log('Using cached access token');
-    return cachedToken.access_token;
+export async function hashCsv(content: CsvSource): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of toCsvStream(content)) {
+    hash.update(chunk);
   }
-
-  console.log('Fetching new M2M access token...');
-
-  // Fetch a new token using client credentials flow
-  const tokenUrl =
-    'https://auth-secure.auth.ap-southeast-2.amazoncognito.com/oauth2/token';
-
-  const credentials = `${process.env.LISTS_AUTH_CLIENT_ID}:${process.env.LISTS_AUTH_CLIENT_SECRET}`;
-  const base64Credentials = Buffer.from(credentials).toString('base64');
-
-  const response = await fetch(tokenUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${base64Credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'client_credentials',
-      scope: 'ala/attrs ala/internal users/read',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to fetch access token: ${response.status} ${response.statusText}. Response: ${errorText}`
-    );
-  }
-
-  const tokenData: OAuth2TokenResponse =
-    (await response.json()) as OAuth2TokenResponse;
-
-  // Cache the token with expiration time
-  cachedToken = {
-    access_token: tokenData.access_token,
-    expires_at: now + tokenData.expires_in * 1000, // Convert to milliseconds
-  };
-
-  console.log(
-    `✅ New access token acquired, expires in ${tokenData.expires_in} seconds`
-  );
-
-  return tokenData.access_token;
-}
-
-/**
- * Creates a multipart form data body for HTTP requests
- */
-function createMultipartFormData(
-  boundary: string,
-  fields: Record<string, string | Buffer>
-): Buffer {
-  const parts: Buffer[] = [];
-  const lineBreak = Buffer.from('\r\n');
-  const boundaryBuffer = Buffer.from(`--${boundary}`);
-
-  for (const [name, value] of Object.entries(fields)) {
-    parts.push(boundaryBuffer);
-    parts.push(lineBreak);
-
-    if (name === 'file' && Buffer.isBuffer(value)) {
-      // Handle ZIP file content with proper headers
-      const filename = `${Date.now()}.zip`;
-      parts.push(
-        Buffer.from(
-          `Content-Disposition: form-data; name="file"; filename="${filename}"`
-        )
-      );
-      parts.push(lineBreak);
-      parts.push(Buffer.from('Content-Type: application/zip'));
-      parts.push(lineBreak);
-      parts.push(lineBreak);
-      parts.push(value);
-    } else if (typeof value === 'string') {
-      parts.push(Buffer.from(`Content-Disposition: form-data; name="${name}"`));
-      parts.push(lineBreak);
-      parts.push(lineBreak);
-      parts.push(Buffer.from(value));
-    }
-    parts.push(lineBreak);
-  }
-
-  parts.push(Buffer.from(`--${boundary}--`));
-  parts.push(lineBreak);
-
-  return Buffer.concat(parts);
+  return hash.digest('hex');
 }
 
 /**
- * Generates a random boundary string for multipart form data
- */
-function generateBoundary(): string {
-  return `----WebKitFormBoundary${Math.random().toString(36).substring(2)}`;
-}
-
-/**
- * Creates a ZIP file in memory containing the CSV content
+ * Streams CSV content into a ZIP file on disk, so the file is never held in
+ * memory and its size is known before uploading
  */
 async function createZipFromCsv(
-  csvContent: string,
+  csvContent: Readable,
   filename: string = 'data.csv'
-): Promise<Buffer> {
-  const zip = new JSZip();
-  zip.file(filename, csvContent);
+): Promise<ZipFile> {
+  const directory = await mkdtemp(path.join(tmpdir(), 'lists-sync-'));
+  const zipPath = path.join(directory, `${filename}.zip`);
 
-  console.log(
-    `Creating ZIP archive with ${filename} (${csvContent.length} characters)`
-  );
+  console.log(`Creating ZIP archive with ${filename}`);
 
-  const zipBuffer = await zip.generateAsync({
-    type: 'nodebuffer',
-    compression: 'DEFLATE',
-    compressionOptions: {
-      level: 6, // Good balance between compression ratio and speed
-    },
+  const archive = archiver('zip', {
+    zlib: { level: 6 }, // Good balance between compression ratio and speed
   });
+  // Fail the archive if the download or decompression fails part way
+  csvContent.once('error', (error) => archive.emit('error', error));
+  archive.append(csvContent, { name: filename });
+  archive.finalize();
+
+  try {
+    await pipelineAsync(archive, createWriteStream(zipPath));
+  } catch (error) {
+    await rm(directory, { recursive: true, force: true });
+    throw error;
+  }
 
+  const { size } = await stat(zipPath);
   console.log(
-    `ZIP created: ${zipBuffer.length} bytes (compression ratio: ${(
-      (1 - zipBuffer.length / csvContent.length) *
-      100
-    ).toFixed(1)}%)`
+    `ZIP created: ${size} bytes from ${archive.pointer()} bytes of output`
   );
 
-  return zipBuffer;
+  return { path: zipPath, size };
+}
+
+// Helper function to delete a ZIP file created for an upload
+async function removeZipFile(zipFile: ZipFile) {
+  await rm(path.dirname(zipFile.path), { recursive: true, force: true });
 }
 
 /**
- * Fetches the internal species list ID from the ALA Lists API
+ * Fetches a species list's details, including its internal ID, from the ALA
+ * Lists API
  */
-async function fetchSpeciesListId(dataResourceUid: string): Promise<string> {
-  const listUrl = `${process.env.LISTS_API_ENDPOINT}/v2/speciesList/${dataResourceUid}`;
-
-  console.log(
-    `Fetching species list info for dataResourceUid: ${dataResourceUid}`
-  );
-
-  const accessToken = await getAccessToken();
-
-  const response = await fetch(listUrl, {
-    method: 'GET',
-    headers: {
-      accept: 'application/json',
-      authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch species list (${dataResourceUid}): ${response.status} ${response.statusText}`
-    );
-  }
-
-  const listData: SpeciesListResponse =
-    (await response.json()) as SpeciesListResponse;
+async function fetchSpeciesList(
+  client: AlaListsClient,
+  dataResourceUid: string
+): Promise<SpeciesListResponse> {
+  const listData = await client.getSpeciesList(dataResourceUid);
 
   console.log(
     `Found species list: "${listData.title}" (ID: ${listData.id}, Version: ${listData.version})`
   );
 
-  return listData.id;
+  return listData;
 }
 
 /**
- * Uploads file content to the ALA Lists API
+ * Uploads file content to the ALA Lists API without ingesting it, returning
+ * ALA's view of the file (row count, fields and validation errors)
  */
-async function uploadFileContent(
+export async function previewUpload(
+  environment: ListsEnvironment,
   parentFolderName: string,
-  fileContent: string
-): Promise<string> {
-  const uploadUrl = `${process.env.LISTS_API_ENDPOINT}/v2/upload`;
-  const boundary = generateBoundary();
+  fileContent: CsvSource
+): Promise<UploadResponse> {
+  console.log(`Uploading file content for folder: ${parentFolderName}`);
 
-  console.log(
-    `Uploading file content for folder: ${parentFolderName} (${fileContent.length} characters)`
-  );
-
-  // Create ZIP file in memory
   const csvFilename = `${parentFolderName}_${Date.now()}.csv`;
-  const zipBuffer = await createZipFromCsv(fileContent, csvFilename);
-
-  const formDataBody = createMultipartFormData(boundary, {
-    file: zipBuffer,
-  });
-
-  const accessToken = await getAccessToken();
-
-  const response = await fetch(uploadUrl, {
-    method: 'POST',
-    headers: {
-      authorization: `Bearer ${accessToken}`,
-      'content-type': `multipart/form-data; boundary=${boundary}`,
-    },
-    body: formDataBody,
-  });
+  const zipFile = await createZipFromCsv(toCsvStream(fileContent), csvFilename);
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to upload file: ${response.status} ${response.statusText}. Response: ${errorText}`
-    );
+  try {
+    return await getAlaClient(environment).upload(zipFile.path);
+  } finally {
+    await removeZipFile(zipFile);
   }
+}
 
-  const uploadData: UploadResponse = (await response.json()) as UploadResponse;
+/**
+ * Uploads a ZIP file to the ALA Lists API, failing on ALA validation errors
+ */
+async function uploadFileContent(
+  client: AlaListsClient,
+  parentFolderName: string,
+  zipFile: ZipFile
+): Promise<UploadResponse> {
+  const uploadData = await client.upload(zipFile.path);
 
   if (uploadData.validationErrors && uploadData.validationErrors.length > 0) {
     const detailedError = `Upload validation errors for ${parentFolderName}:\n${uploadData.validationErrors
@@ -283,143 +176,95 @@ async function uploadFileContent(
     `File uploaded successfully: ${uploadData.localFile} (${uploadData.rowCount} rows)`
   );
 
-  return uploadData.localFile;
-}
-
-/**
- * Ingests the uploaded file into the species list
- */
-async function ingestFile(
-  speciesListID: string,
-  localFile: string
-): Promise<void> {
-  const ingestUrl = `${process.env.LISTS_API_ENDPOINT}/v2/ingest/${speciesListID}`;
-  const boundary = generateBoundary();
-
-  console.log(
-    `Starting ingestion of file: ${localFile} into list: ${speciesListID}`
-  );
-
-  const formDataBody = createMultipartFormData(boundary, {
-    file: localFile,
-  });
-
-  const accessToken = await getAccessToken();
-
-  const response = await fetch(ingestUrl, {
-    method: 'POST',
-    headers: {
-      authorization: `Bearer ${accessToken}`,
-      'content-type': `multipart/form-data; boundary=${boundary}`,
-    },
-    body: formDataBody,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to ingest file: ${response.status} ${response.statusText}. Response: ${errorText}`
-    );
-  }
-
-  console.log('File ingestion started successfully');
-}
-
-/**
- * Monitors the progress of file ingestion until completion
- */
-async function waitForIngestionCompletion(
-  speciesListID: string
-): Promise<void> {
-  const progressUrl = `${process.env.LISTS_API_ENDPOINT}/v2/ingest/${speciesListID}/progress`;
-
-  console.log(`Monitoring ingestion progress for list: ${speciesListID}`);
-  console.log(
-    `Will check every ${PROGRESS_CHECK_INTERVAL / 1000}s for up to ${
-      MAX_WAIT_TIME_SECONDS / 60
-    } minutes`
-  );
-
-  let completed = false;
-  let attempts = 0;
-
-  while (!completed && attempts < MAX_PROGRESS_ATTEMPTS) {
-    await new Promise((resolve) =>
-      setTimeout(resolve, PROGRESS_CHECK_INTERVAL)
-    );
-    attempts++;
-
-    try {
-      const accessToken = await getAccessToken();
-
-      const response = await fetch(progressUrl, {
-        method: 'GET',
-        headers: {
-          authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        console.warn(
-          `Progress check ${attempts} failed: ${response.status} ${response.statusText}`
-        );
-        continue;
-      }
-
-      const progressData: ProgressResponse =
-        (await response.json()) as ProgressResponse;
-      completed = progressData.completed;
-
-      const elapsed = Math.round((Date.now() - progressData.started) / 1000);
-      console.log(
-        `Progress check ${attempts}/${MAX_PROGRESS_ATTEMPTS}: completed = ${completed} ` +
-          `(${progressData.mongoTotal}/${progressData.rowCount} processed, ${elapsed}s elapsed)`
-      );
-    } catch (error) {
-      console.warn(`Progress check ${attempts} failed with error:`, error);
-    }
-  }
-
-  if (!completed) {
-    throw new Error(
-      `File processing did not complete within ${MAX_WAIT_TIME_SECONDS} seconds (${attempts} attempts)`
-    );
-  }
-
-  console.log(`✅ Ingestion completed successfully after ${attempts} checks`);
+  return uploadData;
 }
 
 /**
  * Reloads a species list with new file content
  *
  * @param parentFolderName - The folder name that maps to a dataResourceUid in drMap
- * @param fileContent - The CSV file content to upload
+ * @param fileContent - The CSV file content or stream to upload
  * @param dataResourceUid - The dataResourceUid of the list in the ALA Lists tool
+ * @param environment - The ALA Lists environment to reload the list in
+ * @param options - Optional stage callbacks and abort signal
  */
 export async function reloadList(
   parentFolderName: string,
-  fileContent: string,
-  dataResourceUid: string
+  fileContent: CsvSource,
+  dataResourceUid: string,
+  environment: ListsEnvironment,
+  options: ReloadOptions = {}
 ): Promise<void> {
   const startTime = Date.now();
-  console.log(`🚀 Starting reloadList for folder: ${parentFolderName}`);
+  console.log(
+    `🚀 Starting reloadList for folder: ${parentFolderName} (${environment.name})`
+  );
+
+  const client = getAlaClient(environment);
+  let zipFile: ZipFile | null = null;
 
   try {
-    // Step 0: Ensure we have a valid access token
-    console.log('🔐 Acquiring access token...');
-    await getAccessToken();
+    // Step 1: Validate the file locally while zipping it, in a single pass
+    // over the stream, before touching ALA
+    const validation = new CsvValidationStream(
+      getSchemaForList(environment.name, parentFolderName)
+    );
+    const contentHash = createHash('sha256');
+    zipFile = await createZipFromCsv(
+      pipeline(
+        toCsvStream(fileContent),
+        createHashStream(contentHash),
+        validation,
+        () => {
+          // Errors are passed on to the validation stream and fail the ZIP
+        }
+      ),
+      `${parentFolderName}_${Date.now()}.csv`
+    );
+
+    const report = validation.report!;
+    await options.onValidated?.(report);
+    if (!report.valid) {
+      throw new ValidationError(report);
+    }
 
-    // Step 2: Fetch the species list internal ID
-    const speciesListID = await fetchSpeciesListId(dataResourceUid);
+    // Step 2: Fetch the species list internal ID and current version
+    const list = await fetchSpeciesList(client, dataResourceUid);
+    const speciesListID = list.id;
 
     // Step 3: Upload the file content
-    const localFile = await uploadFileContent(parentFolderName, fileContent);
+    await options.onUploadStarted?.();
+    const upload = await uploadFileContent(client, parentFolderName, zipFile);
+    await removeZipFile(zipFile);
+    zipFile = null;
 
     // Step 4: Ingest the uploaded file
-    await ingestFile(speciesListID, localFile);
+    const baseline: IngestionBaseline = {
+      previousVersion: list.version,
+      uploadedRowCount: upload.rowCount,
+      contentHash: contentHash.digest('hex'),
+    };
+    await client.ingest(speciesListID, upload.localFile);
+    await options.onIngestionStarted?.(speciesListID, baseline);
 
     // Step 5: Wait for ingestion to complete
-    await waitForIngestionCompletion(speciesListID);
+    const progress = await client.waitForIngestion(
+      speciesListID,
+      options.signal,
+      options.onProgress
+    );
+
+    // Step 6: Check ALA holds what was uploaded
+    const verification = await verifyIngestion(
+      client,
+      dataResourceUid,
+      baseline,
+      progress
+    );
+    await options.onVerified?.(verification);
+    if (!verification.verified) {
+      throw new VerificationError(verification);
+    }
 
     const duration = Math.round((Date.now() - startTime) / 1000);
     console.log(
@@ -432,5 +277,7 @@ export async function reloadList(
       error
     );
     throw error;
+  } finally {
+    if (zipFile) await removeZipFile(zipFile);
   }
 }
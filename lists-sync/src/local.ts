@@ -0,0 +1,71 @@
+import { createReadStream, existsSync } from 'fs';
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+
+import { DrsLoadResult, parseDrsConfig } from './drs.js';
+import { ListFile, decompressIfGzipped } from './github.js';
+
+const LISTS_FOLDER = 'imported_GoogleSheets';
+
+// Helper function to find the checkout root, the nearest folder with a drs.json
+export function findRepositoryRoot(start: string = process.cwd()): string {
+  let dir = path.resolve(start);
+  while (!existsSync(path.join(dir, 'drs.json'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error(
+        `No drs.json found in ${start} or its parents, run from the repository checkout or pass --root`
+      );
+    }
+    dir = parent;
+  }
+  return dir;
+}
+
+// Helper function to open a local CSV or CSV.GZ file as a stream
+export function openLocalFile(filePath: string): Readable {
+  return decompressIfGzipped(createReadStream(filePath), filePath);
+}
+
+// Helper function to read a local CSV or CSV.GZ file
+export async function readLocalFileContent(filePath: string): Promise<string> {
+  return text(openLocalFile(filePath));
+}
+
+// Helper function to list the list folders in the local checkout
+export async function listLocalListFolders(rootDir: string): Promise<string[]> {
+  const entries = await readdir(path.join(rootDir, LISTS_FOLDER), {
+    withFileTypes: true,
+  });
+  return entries.filter((entry) => entry.isDirectory()).map(({ name }) => name);
+}
+
+// Helper function to list the CSV files for a list in the local checkout,
+// newest first, with paths relative to the checkout like the GitHub API's
+export async function listLocalFilesForList(
+  rootDir: string,
+  listName: string
+): Promise<Pick<ListFile, 'name' | 'path'>[]> {
+  const folderPath = path.join(rootDir, LISTS_FOLDER, listName);
+  if (!existsSync(folderPath)) {
+    return [];
+  }
+
+  const entries = await readdir(folderPath, { withFileTypes: true });
+  return entries
+    .filter(
+      (entry) =>
+        entry.isFile() &&
+        (entry.name.endsWith('.csv') || entry.name.endsWith('.csv.gz'))
+    )
+    .sort((a, b) => b.name.localeCompare(a.name))
+    .map(({ name }) => ({ name, path: `${LISTS_FOLDER}/${listName}/${name}` }));
+}
+
+// Helper function to load and validate drs.json from the local checkout
+export async function loadLocalDrMap(rootDir: string): Promise<DrsLoadResult> {
+  const content = await readFile(path.join(rootDir, 'drs.json'), 'utf8');
+  return parseDrsConfig(content, await listLocalListFolders(rootDir));
+}
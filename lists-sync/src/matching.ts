@@ -0,0 +1,189 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { AlaListsClient, SpeciesListItem } from './ala.js';
+import { DATA_DIR, EnvironmentName } from './config.js';
+import { csvField } from './diff.js';
+
+export type NameMatchProblem = 'UNMATCHED' | 'FUZZY_MATCH' | 'HIGHER_RANK';
+
+export interface NameMatchIssue {
+  problem: NameMatchProblem;
+  // Name as supplied in the list
+  scientificName: string;
+  // What ALA's name matching resolved it to, if anything
+  matchedName?: string;
+  rank?: string;
+  matchType?: string;
+  taxonConceptID?: string;
+}
+
+export interface NameMatchReport {
+  listName: string;
+  environment: EnvironmentName;
+  dataResourceUid: string;
+  version: number;
+  // Names checked, one per row ALA holds
+  nameCount: number;
+  issues: NameMatchIssue[];
+  createdAt: number;
+}
+
+// Rows fetched per request while reading the ingested list
+const PAGE_SIZE = 500;
+
+const REPORTS_DIR = path.join(DATA_DIR, 'name-matching');
+
+// Ranks above species, a species or infraspecies name matched at one of these
+// lost its identity in name matching, e.g. a hybrid matched to its genus
+const HIGHER_RANKS = new Set([
+  'kingdom',
+  'phylum',
+  'class',
+  'order',
+  'family',
+  'subfamily',
+  'tribe',
+  'genus',
+  'subgenus',
+  'section',
+]);
+
+// Match types where ALA had to guess at the supplied name
+const FUZZY_MATCH_TYPES = new Set(['fuzzyMatch', 'phraseMatch']);
+
+// Helper function to classify how well a list row's name matched, returning
+// null for a good match
+function findMatchProblem(item: SpeciesListItem): NameMatchProblem | null {
+  const { classification } = item;
+  if (!classification?.taxonConceptID) return 'UNMATCHED';
+
+  const rank = classification.rank?.toLowerCase();
+  const suppliedSpecies = item.scientificName.trim().split(/\s+/).length > 1;
+  if (
+    classification.matchType === 'higherMatch' ||
+    (suppliedSpecies && rank && HIGHER_RANKS.has(rank))
+  ) {
+    return 'HIGHER_RANK';
+  }
+
+  if (FUZZY_MATCH_TYPES.has(classification.matchType || '')) {
+    return 'FUZZY_MATCH';
+  }
+  return null;
+}
+
+/**
+ * Reads every row of an ingested list back from ALA and reports the names
+ * that did not match, matched fuzzily or matched at a higher rank
+ */
+export async function buildNameMatchReport(
+  client: AlaListsClient,
+  listName: string,
+  dataResourceUid: string
+): Promise<NameMatchReport> {
+  const list = await client.getSpeciesList(dataResourceUid);
+  const issues: NameMatchIssue[] = [];
+  let nameCount = 0;
+
+  for (let page = 1; ; page++) {
+    const items = await client.getListItems(list.id, page, PAGE_SIZE);
+    nameCount += items.length;
+
+    for (const item of items) {
+      const problem = findMatchProblem(item);
+      if (!problem) continue;
+
+      issues.push({
+        problem,
+        scientificName: item.scientificName,
+        matchedName: item.classification?.scientificName,
+        rank: item.classification?.rank,
+        matchType: item.classification?.matchType,
+        taxonConceptID: item.classification?.taxonConceptID,
+      });
+    }
+
+    if (items.length < PAGE_SIZE) break;
+  }
+
+  return {
+    listName,
+    environment: client.environment,
+    dataResourceUid,
+    version: list.version,
+    nameCount,
+    issues,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Summarises a name matching report for Slack
+ */
+export function formatNameMatchSummary(report: NameMatchReport): string[] {
+  const count = (problem: NameMatchProblem) =>
+    report.issues.filter((issue) => issue.problem === problem).length;
+  const matched = report.nameCount - report.issues.length;
+
+  return [
+    `🧬  Name matching: ${matched.toLocaleString()} of ${report.nameCount.toLocaleString()} names matched cleanly` +
+      (report.issues.length > 0
+        ? `, ${count('UNMATCHED')} unmatched, ${count(
+            'FUZZY_MATCH'
+          )} fuzzy matched, ${count('HIGHER_RANK')} matched at a higher rank`
+        : ''),
+  ];
+}
+
+/**
+ * Formats a name matching report as CSV, one line per problem name
+ */
+export function formatNameMatchCsv(report: NameMatchReport): string {
+  const lines = [
+    [
+      'problem',
+      'scientificName',
+      'matchedName',
+      'rank',
+      'matchType',
+      'taxonConceptID',
+    ],
+    ...report.issues.map((issue) => [
+      issue.problem,
+      issue.scientificName,
+      issue.matchedName || '',
+      issue.rank || '',
+      issue.matchType || '',
+      issue.taxonConceptID || '',
+    ]),
+  ];
+
+  return lines.map((line) => line.map(csvField).join(',')).join('\n');
+}
+
+// Helper function to get where a list version's report is kept
+export function getNameMatchReportPath(
+  environment: EnvironmentName,
+  listName: string,
+  version: number
+): string {
+  return path.join(REPORTS_DIR, environment, listName, `v${version}.csv`);
+}
+
+/**
+ * Keeps a name matching report alongside the reports for earlier versions
+ * of the list
+ */
+export async function saveNameMatchReport(
+  report: NameMatchReport
+): Promise<string> {
+  const reportPath = getNameMatchReportPath(
+    report.environment,
+    report.listName,
+    report.version
+  );
+  await mkdir(path.dirname(reportPath), { recursive: true });
+  await writeFile(reportPath, formatNameMatchCsv(report));
+  return reportPath;
+}
@@ -0,0 +1,70 @@
+import slack from '@slack/bolt';
+
+export type CommandPermission = 'reload' | 'rollback' | 'promote' | 'clean';
+
+// Configuration constants
+const USER_GROUP_CACHE_TTL = 300000; // 5 minutes
+
+const groupMembers = new Map<
+  string,
+  { members: Set<string>; fetchedAt: number }
+>();
+
+// Helper function to read the Slack user and user group IDs allowed a
+// permission, e.g. SLACK_ALLOW_RELOAD=U012AB3CD,S0614TZR7
+function getAllowlist(permission: CommandPermission): string[] {
+  return (process.env[`SLACK_ALLOW_${permission.toUpperCase()}`] || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// Helper function to get the members of a Slack user group, cached for a few
+// minutes so each command doesn't wait on the Slack API
+async function getUserGroupMembers(
+  client: slack.webApi.WebClient,
+  groupId: string
+): Promise<Set<string>> {
+  const cached = groupMembers.get(groupId);
+  if (cached && Date.now() - cached.fetchedAt < USER_GROUP_CACHE_TTL) {
+    return cached.members;
+  }
+
+  const { users } = await client.usergroups.users.list({ usergroup: groupId });
+  const members = new Set(users || []);
+  groupMembers.set(groupId, { members, fetchedAt: Date.now() });
+  return members;
+}
+
+/**
+ * Checks whether a Slack user is allowed a permission, either by their own
+ * user ID or through one of the user groups in its allowlist. Permissions
+ * with an empty allowlist are allowed to nobody
+ */
+export async function isAllowed(
+  client: slack.webApi.WebClient,
+  userId: string,
+  permission: CommandPermission
+): Promise<boolean> {
+  const allowlist = getAllowlist(permission);
+  if (allowlist.includes(userId)) return true;
+
+  for (const groupId of allowlist.filter((id) => id.startsWith('S'))) {
+    try {
+      if ((await getUserGroupMembers(client, groupId)).has(userId)) {
+        return true;
+      }
+    } catch (error) {
+      // A group that can't be read grants nothing
+      console.error(`Failed to read Slack user group ${groupId}:`, error);
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether a command or button press came from the lists channel
+ */
+export function isAllowedChannel(channelId: string | undefined): boolean {
+  return !!channelId && channelId === process.env.SLACK_CHANNEL_ID;
+}
@@ -0,0 +1,66 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { DATA_DIR, EnvironmentName } from './config.js';
+
+export interface ListPin {
+  listName: string;
+  environment: EnvironmentName;
+  path: string;
+  sha?: string;
+  // Slack user ID of whoever rolled the list back
+  pinnedBy: string;
+  pinnedAt: number;
+}
+
+const PINS_PATH = path.join(DATA_DIR, 'pins.json');
+
+let pins: Record<string, ListPin> = {};
+
+function pinKey(environment: EnvironmentName, listName: string): string {
+  return `${environment}:${listName}`;
+}
+
+async function savePins(): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(PINS_PATH, JSON.stringify(pins, null, 2));
+}
+
+/**
+ * Loads list pins saved by earlier rollbacks
+ */
+export async function loadPins(): Promise<void> {
+  try {
+    pins = JSON.parse(await readFile(PINS_PATH, 'utf8'));
+    console.log(`Loaded ${Object.keys(pins).length} pinned list(s)`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+export function getPin(
+  environment: EnvironmentName,
+  listName: string
+): ListPin | null {
+  return pins[pinKey(environment, listName)] || null;
+}
+
+/**
+ * Pins a list to an older file, so later pushes warn instead of reloading it
+ */
+export async function setPin(pin: ListPin): Promise<void> {
+  pins[pinKey(pin.environment, pin.listName)] = pin;
+  await savePins();
+}
+
+export async function clearPin(
+  environment: EnvironmentName,
+  listName: string
+): Promise<ListPin | null> {
+  const pin = getPin(environment, listName);
+  if (pin) {
+    delete pins[pinKey(environment, listName)];
+    await savePins();
+  }
+  return pin;
+}
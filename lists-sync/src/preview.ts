@@ -0,0 +1,137 @@
+import { UploadResponse } from './ala.js';
+import { ListsEnvironment } from './config.js';
+import { CsvOpener, ListDiff, diffCsv, formatDiffSummary } from './diff.js';
+import { getSchemaForList } from './drs.js';
+import { ListFile, findPreviousFile, getFileStream } from './github.js';
+import { previewUpload } from './lists.js';
+import {
+  ValidationReport,
+  formatValidationReport,
+  validateCsvStream,
+} from './validation.js';
+
+export interface PreviousFileDiff {
+  previousFile: Pick<ListFile, 'name' | 'path'>;
+  diff: ListDiff;
+}
+
+export interface DryRunResult {
+  listName: string;
+  path: string;
+  ref: string;
+  validation: ValidationReport;
+  comparison: PreviousFileDiff | null;
+  // ALA's view of the file, null when local validation failed
+  upload: UploadResponse | null;
+}
+
+/**
+ * Diffs file content against another file in the repository
+ */
+export async function diffWithFile(
+  owner: string,
+  repo: string,
+  previousFile: Pick<ListFile, 'name' | 'path'>,
+  ref: string,
+  openFile: CsvOpener
+): Promise<PreviousFileDiff> {
+  const openPrevious = () => getFileStream(owner, repo, previousFile.path, ref);
+
+  return { previousFile, diff: await diffCsv(openPrevious, openFile) };
+}
+
+/**
+ * Diffs file content against the file before it in the same list folder
+ *
+ * @returns The previous file and diff, or null when there is no earlier file
+ */
+export async function diffWithPreviousFile(
+  owner: string,
+  repo: string,
+  listName: string,
+  path: string,
+  ref: string,
+  openFile: CsvOpener
+): Promise<PreviousFileDiff | null> {
+  const previousFile = await findPreviousFile(listName, path, ref);
+  if (!previousFile) {
+    return null;
+  }
+
+  return diffWithFile(owner, repo, previousFile, ref, openFile);
+}
+
+/**
+ * Validates, diffs and uploads a list file to ALA without ingesting it, so
+ * curators can see what a reload would do before replacing the live list
+ */
+export async function dryRunReload(
+  owner: string,
+  repo: string,
+  listName: string,
+  path: string,
+  ref: string,
+  environment: ListsEnvironment
+): Promise<DryRunResult> {
+  console.log(
+    `🧪 Starting dry run for ${listName} (${environment.name}) from ${path}`
+  );
+
+  // Each step streams the file afresh, so large files are never held in memory
+  const openFile = () => getFileStream(owner, repo, path, ref);
+
+  const validation = await validateCsvStream(
+    await openFile(),
+    getSchemaForList(environment.name, listName)
+  );
+  const comparison = await diffWithPreviousFile(
+    owner,
+    repo,
+    listName,
+    path,
+    ref,
+    openFile
+  );
+
+  // ALA would reject a file that fails local validation, so skip the upload
+  const upload = validation.valid
+    ? await previewUpload(environment, listName, await openFile())
+    : null;
+
+  return { listName, path, ref, validation, comparison, upload };
+}
+
+/**
+ * Formats a dry run result as Slack message lines
+ */
+export function formatDryRunResult(result: DryRunResult): string[] {
+  const lines = formatValidationReport(result.validation);
+
+  if (result.comparison) {
+    lines.push(
+      ...formatDiffSummary(
+        result.comparison.diff,
+        result.comparison.previousFile.name
+      )
+    );
+  } else {
+    lines.push(`🧮  No previous file to compare against`);
+  }
+
+  if (!result.upload) {
+    lines.push(`⏭️  Skipped ALA upload check, fix the validation errors first`);
+  } else if (result.upload.validationErrors?.length) {
+    lines.push(
+      `❌  ALA rejected the file: ${result.upload.validationErrors.join(', ')}`
+    );
+  } else {
+    lines.push(
+      `☁️  ALA would load ${
+        result.upload.rowCount
+      } rows with fields: ${result.upload.fieldList.join(', ')}`
+    );
+  }
+
+  lines.push(`🧪  Dry run only, the live list was not changed`);
+  return lines;
+}
@@ -0,0 +1,93 @@
+export interface ColumnRule {
+  // Column header, a trailing '*' matches any header with that prefix
+  name: string;
+  // At least one header must match the rule
+  required?: boolean;
+  // Allowed values for matching columns, empty cells are always allowed
+  values?: string[];
+}
+
+export interface ListSchema {
+  columns: ColumnRule[];
+}
+
+const BOOLEAN_VALUES = ['true', 'false'];
+
+// Columns every list needs for ALA to match names
+const BASE_COLUMNS: ColumnRule[] = [{ name: 'scientificName', required: true }];
+
+// Helper function to build a schema for lists flagged with a single trait column
+function flagSchema(column: string): ListSchema {
+  return {
+    columns: [
+      ...BASE_COLUMNS,
+      { name: column, required: true, values: BOOLEAN_VALUES },
+    ],
+  };
+}
+
+/**
+ * Declared schemas for each list folder in imported_GoogleSheets
+ */
+export const listSchemas: Record<string, ListSchema> = {
+  Edible_species_list: flagSchema('edibleWildSpecies'),
+  crop_wild_relatives: flagSchema('cropWildRelative'),
+  native_species: flagSchema('nativeSpecies'),
+  migratory_species: flagSchema('migratorySpecies'),
+  invasive_and_pest_species: flagSchema('invasivesPests'),
+  useful_species: flagSchema('usefulSpecies'),
+  venomous_and_poisonous_species: flagSchema('isVenomous'),
+  bushfire_recovery: flagSchema('VulnerableWildfire'),
+  threatened_species: {
+    columns: [
+      ...BASE_COLUMNS,
+      { name: 'EPBC: *', required: true, values: BOOLEAN_VALUES },
+      { name: 'IUCN: *', required: true, values: BOOLEAN_VALUES },
+    ],
+  },
+  IUCN_red_list: {
+    columns: [
+      ...BASE_COLUMNS,
+      {
+        name: 'IUCN_RedList_status',
+        required: true,
+        values: [
+          'Extinct',
+          'Extinct in the Wild',
+          'Critically Endangered',
+          'Endangered',
+          'Vulnerable',
+          'Near Threatened',
+          'Lower Risk/conservation dependent',
+          'Lower Risk/near threatened',
+          'Lower Risk/least concern',
+          'Least Concern',
+          'Data Deficient',
+        ],
+      },
+    ],
+  },
+  Industry_and_commerce_list: {
+    columns: [...BASE_COLUMNS, { name: 'Commercial sector', required: true }],
+  },
+  significant_milestones: {
+    columns: [...BASE_COLUMNS, { name: 'Firsts', required: true }],
+  },
+  lichen_species: {
+    columns: [...BASE_COLUMNS, { name: 'taxonID', required: true }],
+  },
+};
+
+// Schema used for lists without a declared schema
+export const defaultSchema: ListSchema = { columns: BASE_COLUMNS };
+
+export function getListSchema(listName: string): ListSchema {
+  return listSchemas[listName] || defaultSchema;
+}
+
+// Helper function to check whether a header matches a column rule
+export function matchesColumnRule(header: string, rule: ColumnRule): boolean {
+  return rule.name.endsWith('*')
+    ? header.startsWith(rule.name.slice(0, -1))
+    : header === rule.name;
+}
@@ -1,12 +1,56 @@
 import slack from '@slack/bolt';
 import dotenv from 'dotenv';
 
+import { recordAuditEntry } from './audit.js';
 import {
+  EnvironmentName,
+  ListsEnvironment,
+  getAlaListLink,
+  getEnvironment,
+} from './config.js';
+import { formatDiffCsv, formatDiffSummary } from './diff.js';
+import {
+  getDataResourceConfig,
+  getDataResourceEntry,
+  getSchemaForList,
+} from './drs.js';
+import {
+  AmbiguousVersionError,
   DataResourceMap,
+  ListFile,
   findLatestFileForList,
-  getFileContent,
+  findListFileVersion,
+  getFileSha,
+  getFileStream,
+  listFilesForList,
+  resolveCommitSha,
 } from './github.js';
-import { reloadList } from './lists.js';
+import {
+  JobState,
+  ReloadJob,
+  abandonJob,
+  approveJob,
+  enqueueReload,
+  findLastCompletedJob,
+  formatDuration,
+  isFinished,
+  listJobsForList,
+  rejectJob,
+} from './jobs.js';
+import {
+  diffWithFile,
+  diffWithPreviousFile,
+  dryRunReload,
+  formatDryRunResult,
+} from './preview.js';
+import {
+  CommandPermission,
+  isAllowed,
+  isAllowedChannel,
+} from './permissions.js';
+import { getPin } from './pins.js';
+import { getServiceStatus } from './status.js';
+import { formatValidationReport, validateCsvStream } from './validation.js';
 
 dotenv.config();
 
@@ -22,8 +66,59 @@ const slackApp = new App({
   receiver,
   token: process.env.SLACK_BOT_TOKEN,
   signingSecret: process.env.SLACK_SIGNING_SECRET,
+  clientOptions: {
+    slackApiUrl: process.env.SLACK_API_URL, // Optional: for a local stand-in
+  },
 });
 
+// Number of recent versions offered by the /rollback picker
+const ROLLBACK_PICKER_SIZE = 10;
+
+// Reloads shown by /history, unless --limit asks for more
+const HISTORY_DEFAULT_SIZE = 10;
+const HISTORY_MAX_SIZE = 25;
+
+// Slack allows 50 blocks per message, leaving room for a header and footer
+const MAX_MESSAGE_SECTIONS = 45;
+
+// Permission each slash command needs, commands missing here can be run by
+// anyone in the lists channel
+const COMMAND_PERMISSIONS: Record<string, CommandPermission> = {
+  '/reload': 'reload',
+  '/rollback': 'rollback',
+  '/promote': 'promote',
+  '/clean': 'clean',
+};
+
+// Permission each button or picker needs. Approving or rejecting any job that
+// needs approval takes the promote permission, so reload alone can't clear the
+// production gate
+const ACTION_PERMISSIONS: Record<string, CommandPermission> = {
+  rollback_select: 'rollback',
+  approve_reload: 'promote',
+  reject_reload: 'promote',
+  cancel_reload: 'reload',
+};
+
+// What each permission lets someone do, for the reply when it's denied
+const PERMISSION_DESCRIPTIONS: Record<CommandPermission, string> = {
+  reload: 'reload lists',
+  rollback: 'roll back lists',
+  promote: 'promote lists or approve reloads',
+  clean: 'delete bot messages',
+};
+
+const JOB_STATE_EMOJI: Record<JobState, string> = {
+  awaiting_approval: '✋',
+  queued: '🕒',
+  uploading: '📤',
+  ingesting: '⏳',
+  completed: '✅',
+  failed: '❌',
+  rejected: '🚫',
+  abandoned: '🛑',
+};
+
 // Store drMap reference that will be set from server.ts
 let drMap: DataResourceMap = { prod: {}, test: {} };
 
@@ -86,7 +181,7 @@ export function createMessageBlocks(
 }
 
 export async function updateReloadMessage(
-  message: slack.webApi.ChatPostMessageResponse,
+  message: { ts?: string; channel?: string },
   blocks: Blocks
 ) {
   await slackApp.client.chat.update({
@@ -96,40 +191,230 @@ export async function updateReloadMessage(
   });
 }
 
+export function createApprovalActions(value: string): slack.webApi.KnownBlock {
+  return {
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        action_id: 'approve_reload',
+        text: { type: 'plain_text', text: 'Approve', emoji: true },
+        style: 'primary',
+        value,
+      },
+      {
+        type: 'button',
+        action_id: 'reject_reload',
+        text: { type: 'plain_text', text: 'Reject', emoji: true },
+        style: 'danger',
+        value,
+      },
+    ],
+  };
+}
+
+// Helper function to build the Cancel button shown while a reload is ingesting
+export function createCancelActions(value: string): slack.webApi.KnownBlock {
+  return {
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        action_id: 'cancel_reload',
+        text: { type: 'plain_text', text: 'Cancel', emoji: true },
+        style: 'danger',
+        value,
+        confirm: {
+          title: { type: 'plain_text', text: 'Cancel reload?' },
+          text: {
+            type: 'mrkdwn',
+            text: 'The sync service stops monitoring this ingestion. ALA may still finish ingesting the file.',
+          },
+          confirm: { type: 'plain_text', text: 'Cancel reload' },
+          deny: { type: 'plain_text', text: 'Keep waiting' },
+        },
+      },
+    ],
+  };
+}
+
+// Helper function to check a command or button press came from the lists
+// channel, and from someone allowed the permission it needs. Denied attempts
+// get a reply only the user can see and are written to the audit log
+async function authorise(
+  request: {
+    userId: string;
+    userName?: string;
+    channelId?: string;
+    command: string;
+  },
+  client: slack.webApi.WebClient,
+  respond: slack.RespondFn,
+  permission?: CommandPermission
+): Promise<boolean> {
+  let reason: string | null = null;
+  if (!isAllowedChannel(request.channelId)) {
+    reason = `List commands can only be used in <#${process.env.SLACK_CHANNEL_ID}>.`;
+  } else if (
+    permission &&
+    !(await isAllowed(client, request.userId, permission))
+  ) {
+    reason = `You don't have permission to ${
+      PERMISSION_DESCRIPTIONS[permission]
+    }, ask an admin to add you to \`SLACK_ALLOW_${permission.toUpperCase()}\`.`;
+  }
+  if (!reason) return true;
+
+  console.warn(
+    `Denied \`${request.command}\` for ${request.userId}: ${reason}`
+  );
+  await recordAuditEntry({
+    action: 'command_denied',
+    actorType: 'slack',
+    actor: request.userId,
+    actorName: request.userName,
+    command: request.command,
+    outcome: 'denied',
+    details: reason,
+  });
+  await respond({
+    response_type: 'ephemeral',
+    replace_original: false,
+    text: `🚫  ${reason}`,
+  });
+  return false;
+}
+
+// Every slash command and button press is checked before its handler runs,
+// and recorded in the audit log once it has
+slackApp.use(async (args) => {
+  let request: Parameters<typeof authorise>[0];
+  let permission: CommandPermission | undefined;
+  let listName: string | undefined;
+
+  if ('command' in args) {
+    const { command } = args;
+    request = {
+      userId: command.user_id,
+      userName: command.user_name,
+      channelId: command.channel_id,
+      command: `${command.command} ${command.text}`.trim(),
+    };
+    permission = COMMAND_PERMISSIONS[command.command];
+
+    // Most commands name a list first
+    const [firstArg] = parseCommandArgs(command.text).args;
+    const config = getDataResourceConfig();
+    if (firstArg && (config.test[firstArg] || config.prod[firstArg])) {
+      listName = firstArg;
+    }
+  } else if ('action' in args && args.body.type === 'block_actions') {
+    const { action, body } = args;
+    const value =
+      'selected_option' in action
+        ? action.selected_option?.value
+        : 'value' in action
+        ? action.value
+        : undefined;
+
+    request = {
+      userId: body.user.id,
+      userName: body.user.name,
+      channelId: body.channel?.id,
+      command: `${body.actions[0].action_id} ${value ?? ''}`.trim(),
+    };
+    permission = ACTION_PERMISSIONS[body.actions[0].action_id];
+  } else {
+    await args.next();
+    return;
+  }
+
+  if (!(await authorise(request, args.client, args.respond, permission))) {
+    await args.ack();
+    return;
+  }
+
+  let error: unknown;
+  try {
+    await args.next();
+  } catch (handlerError) {
+    error = handlerError;
+  }
+
+  await recordAuditEntry({
+    action: 'command',
+    actorType: 'slack',
+    actor: request.userId,
+    actorName: request.userName,
+    command: request.command,
+    listName,
+    outcome: error ? 'failed' : 'completed',
+    details: error ? String(error) : undefined,
+  });
+  if (error) throw error;
+});
+
+// Helper function to split slash command text into arguments and flags,
+// e.g. "Edible_species_list --dry-run --env=prod"
+function parseCommandArgs(text: string): {
+  args: string[];
+  flags: Record<string, string | true>;
+} {
+  const args: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    if (token.startsWith('--')) {
+      const [name, value] = token.slice(2).split('=', 2);
+      flags[name] = value ?? true;
+    } else {
+      args.push(token);
+    }
+  }
+
+  return { args, flags };
+}
+
 slackApp.command('/reload', async ({ command, ack, say }) => {
   // Acknowledge the command immediately
   await ack();
 
-  const listName = command.text.trim();
+  const { args, flags } = parseCommandArgs(command.text);
+  const dryRun = flags['dry-run'] === true;
+  const [listName] = args;
 
   if (!listName) {
     await say(
-      '❌ *Usage:* `/reload [list_name]`\n\nExample: `/reload Edible_species_list`\n\nTo see available lists, use `/lists`'
+      '❌ *Usage:* `/reload [list_name] [--dry-run] [--env=test|prod]`\n\nExample: `/reload Edible_species_list`\n\nUse `--dry-run` to validate, diff and check the file with ALA without replacing the live list.\n\nTo see available lists, use `/lists`'
+    );
+    return;
+  }
+
+  let environment;
+  try {
+    environment = getEnvironment(
+      typeof flags.env === 'string' ? flags.env : undefined
     );
+  } catch (error) {
+    await say(`❌  ${(error as Error).message}`);
     return;
   }
 
   // Check if list exists in drMap
-  const isListsTest = process.env.LISTS_API_ENDPOINT!.includes('.test');
-  const environment = isListsTest ? 'test' : 'prod';
-  const dataResourceUid = drMap[environment][listName];
+  const dataResourceUid = drMap[environment.name][listName];
 
   if (!dataResourceUid) {
-    await say(
-      `❌  List not found in configuration! Check \`drs.json\` for available lists.`
-    );
+    await say(formatMissingListMessage(environment.name, listName));
     return;
   }
 
   const gitHubLink = `https://github.com/${process.env
     .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${listName}`;
-  const alaLink = `https://lists${
-    environment === 'test' ? '.test' : ''
-  }.ala.org.au/list/${dataResourceUid}`;
+  const alaLink = getAlaListLink(environment, dataResourceUid);
 
   // Send initial response
   const updateBlocks = createMessageBlocks(
-    `List reload: ${listName}`,
+    `List ${dryRun ? 'dry run' : 'reload'}: ${listName} (${environment.name})`,
     [],
     gitHubLink,
     alaLink
@@ -152,55 +437,794 @@ slackApp.command('/reload', async ({ command, ack, say }) => {
       return;
     }
 
-    // Generate links
+    const defaultRepo = process.env.GITHUB_REPO!;
+    const [owner, repo] = defaultRepo.split('/');
+
+    if (dryRun) {
+      await updateReloadMessage(
+        message,
+        updateBlocks(
+          `📁  Found latest file \`${latestFile.name}\`, running dry run...`
+        )
+      );
+      const result = await dryRunReload(
+        owner,
+        repo,
+        listName,
+        latestFile.path,
+        'HEAD',
+        environment
+      );
+      await updateReloadMessage(
+        message,
+        updateBlocks(formatDryRunResult(result))
+      );
+      return;
+    }
+
+    const foundMessage = `📁  Found latest file \`${latestFile.name}\`, queued for processing...`;
+    const messages = [
+      `🔄  Starting reload for list *${listName}*`,
+      foundMessage,
+    ];
+    await updateReloadMessage(message, updateBlocks(foundMessage));
+
+    // Reloading the latest file explicitly lifts any rollback pin, once the
+    // reload has succeeded
+    const pin = getPin(environment.name, listName);
+    if (pin) {
+      messages.push(
+        `📌  Pinned to \`${pin.path.split('/').pop()}\` by <@${
+          pin.pinnedBy
+        }>, the pin is removed once this reload completes`
+      );
+    }
+
+    // Hand the reload over to the job queue, which keeps updating this message
+    await enqueueReload({
+      listName,
+      dataResourceUid,
+      environment: environment.name,
+      owner,
+      repo,
+      path: latestFile.path,
+      ref: await resolveCommitSha(owner, repo, 'HEAD'),
+      sha: latestFile.sha,
+      title: `List reload: ${listName} (${environment.name})`,
+      messages,
+      gitHubLink,
+      alaLink,
+      slackMessage: { channel: message.channel!, ts: message.ts! },
+      trigger: { source: 'command', userId: command.user_id },
+      pin: pin ? { action: 'clear', userId: command.user_id } : undefined,
+    });
+  } catch (error) {
+    console.error(`Slash command reload failed for ${listName}:`, error);
     await updateReloadMessage(
       message,
       updateBlocks(
-        `📁  Found latest file \`${latestFile.name}\`, downloading and processing...`
+        `❌  List reload failed for: *${listName}*\n\n*Error:* ${error}`
       )
     );
+  }
+});
 
-    // Get file content
-    const defaultRepo = process.env.GITHUB_REPO!;
-    const [owner, repo] = defaultRepo.split('/');
-    const fileContent = await getFileContent(
-      owner,
-      repo,
-      latestFile.path,
-      'HEAD'
+// Helper function to explain why a list is not available in an environment
+function formatMissingListMessage(
+  environment: EnvironmentName,
+  listName: string
+): string {
+  return getDataResourceEntry(environment, listName)?.enabled === false
+    ? `⏸️  List *${listName}* is disabled in \`drs.json\` for ${environment}.`
+    : `❌  List not found in configuration! Check \`drs.json\` for available lists.`;
+}
+
+// Helper function to label a list file version in Slack
+function formatFileVersion(file: ListFile): string {
+  const timestamp = file.name.match(/\d{4}-\d{2}-\d{2}T[\d-]+Z/)?.[0];
+  return `${timestamp || file.name.slice(0, 60)} (${file.sha.slice(0, 7)})`;
+}
+
+/**
+ * Queues a reload of an older file, pinning the list to it once it has loaded
+ */
+async function startRollback(
+  listName: string,
+  environment: ListsEnvironment,
+  file: ListFile,
+  ref: string,
+  userId: string
+) {
+  const dataResourceUid = drMap[environment.name][listName];
+  const defaultRepo = process.env.GITHUB_REPO!;
+  const [owner, repo] = defaultRepo.split('/');
+  const latestFile = await findLatestFileForList(listName);
+  const isLatest = ref === 'HEAD' && latestFile?.path === file.path;
+
+  await enqueueReload({
+    listName,
+    dataResourceUid,
+    environment: environment.name,
+    owner,
+    repo,
+    path: file.path,
+    ref: await resolveCommitSha(owner, repo, ref),
+    sha: file.sha,
+    title: `List rollback: ${listName} (${environment.name})`,
+    messages: [
+      `⏪  <@${userId}> is rolling back to \`${file.name}\`${
+        ref === 'HEAD' ? '' : ` as of commit \`${ref.slice(0, 7)}\``
+      }`,
+      isLatest
+        ? `📌  This is the latest file, so the list will no longer be pinned once it has loaded`
+        : `📌  Once it has loaded, the list will be pinned to this version and later pushes will not reload it until \`/reload ${listName}\` is run`,
+    ],
+    gitHubLink: `https://github.com/${process.env
+      .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${listName}`,
+    alaLink: getAlaListLink(environment, dataResourceUid),
+    trigger: { source: 'rollback', userId },
+    pin: { action: isLatest ? 'clear' : 'set', userId },
+  });
+}
+
+slackApp.command('/rollback', async ({ command, ack, say }) => {
+  await ack();
+
+  const { args, flags } = parseCommandArgs(command.text);
+  const [listName, version] = args;
+
+  if (!listName) {
+    await say(
+      '❌ *Usage:* `/rollback [list_name] [timestamp|sha] [--env=test|prod]`\n\nExample: `/rollback Edible_species_list 2025-08-07T00-37-07-346Z`\n\nLeave out the version to pick from the most recent files.'
     );
+    return;
+  }
 
-    if (!fileContent) {
-      await updateReloadMessage(
-        message,
-        updateBlocks(`❌  *Failed to download file:* \`${latestFile.name}\``)
+  let environment;
+  try {
+    environment = getEnvironment(
+      typeof flags.env === 'string' ? flags.env : undefined
+    );
+  } catch (error) {
+    await say(`❌  ${(error as Error).message}`);
+    return;
+  }
+
+  if (!drMap[environment.name][listName]) {
+    await say(formatMissingListMessage(environment.name, listName));
+    return;
+  }
+
+  try {
+    if (!version) {
+      // Offer a picker of the most recent versions
+      const csvFiles = (await listFilesForList(listName)).slice(
+        0,
+        ROLLBACK_PICKER_SIZE
       );
+      if (csvFiles.length === 0) {
+        await say(`❌  No files found for list *${listName}*`);
+        return;
+      }
+
+      await say({
+        text: `Pick a version of ${listName} to roll back to`,
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `⏪  Pick a version of *${listName}* to roll back to in ${environment.name}`,
+            },
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'static_select',
+                action_id: 'rollback_select',
+                placeholder: { type: 'plain_text', text: 'Select a version' },
+                options: csvFiles.map((file, index) => ({
+                  text: {
+                    type: 'plain_text',
+                    text: `${formatFileVersion(file)}${
+                      index === 0 ? ' (latest)' : ''
+                    }`,
+                  },
+                  value: `${environment!.name}|${listName}|${file.sha}`,
+                })),
+              },
+            ],
+          },
+        ],
+      });
       return;
     }
 
-    await updateReloadMessage(
-      message,
-      updateBlocks(`🚀  Starting list reload process...`)
+    const match = await findListFileVersion(listName, version);
+    if (!match) {
+      await say(
+        `❌  No file matching \`${version}\` found for *${listName}*, run \`/rollback ${listName}\` to pick from recent versions.`
+      );
+      return;
+    }
+
+    await startRollback(
+      listName,
+      environment,
+      match.file,
+      match.ref,
+      command.user_id
     );
+  } catch (error) {
+    if (error instanceof AmbiguousVersionError) {
+      await say(
+        `❌  ${error.message}. Use a longer SHA or the full timestamp, or run \`/rollback ${listName}\` to pick from recent versions.`
+      );
+      return;
+    }
 
-    // Reload the list
-    await reloadList(listName, fileContent, dataResourceUid);
+    console.error(`Rollback command failed for ${listName}:`, error);
+    await say(`❌  Rollback failed for: *${listName}*\n\n*Error:* ${error}`);
+  }
+});
 
-    await updateReloadMessage(
-      message,
-      updateBlocks(`✅  List reload completed successfully!`)
+slackApp.action('rollback_select', async ({ ack, body, action, respond }) => {
+  await ack();
+
+  const [environmentName, listName, sha] = (
+    action as slack.StaticSelectAction
+  ).selected_option.value.split('|');
+
+  try {
+    const environment = getEnvironment(environmentName);
+    const match = await findListFileVersion(listName, sha);
+    if (!match) {
+      throw new Error(`File with SHA \`${sha}\` no longer exists`);
+    }
+
+    await respond({
+      replace_original: true,
+      text: `⏪  Rolling *${listName}* back to \`${match.file.name}\``,
+    });
+    await startRollback(
+      listName,
+      environment,
+      match.file,
+      match.ref,
+      body.user.id
     );
   } catch (error) {
-    console.error(`Slash command reload failed for ${listName}:`, error);
+    console.error(`Rollback failed for ${listName}:`, error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌  Rollback failed for: *${listName}*\n\n*Error:* ${error}`,
+    });
+  }
+});
+
+slackApp.command('/promote', async ({ command, ack, say }) => {
+  await ack();
+
+  const [listName] = parseCommandArgs(command.text).args;
+
+  if (!listName) {
+    await say(
+      '❌ *Usage:* `/promote [list_name]`\n\nExample: `/promote Edible_species_list`\n\nPromotes the file currently loaded in test to production, after approval.'
+    );
+    return;
+  }
+
+  let source, target;
+  try {
+    source = getEnvironment('test');
+    target = getEnvironment('prod');
+  } catch (error) {
+    await say(`❌  ${(error as Error).message}`);
+    return;
+  }
+
+  const dataResourceUid = drMap[target.name][listName];
+  if (!dataResourceUid) {
+    await say(
+      `❌  List *${listName}* has no production data resource! Add it to the \`prod\` section of \`drs.json\` first.`
+    );
+    return;
+  }
+
+  // The file to promote is whatever the last successful test reload loaded
+  const sourceJob = findLastCompletedJob(listName, source.name);
+  if (!sourceJob) {
+    await say(
+      `❌  No successful reload of *${listName}* in ${source.name} has been recorded, reload it in ${source.name} first.`
+    );
+    return;
+  }
+
+  const fileName = sourceJob.path.split('/').pop();
+  const gitHubLink = `https://github.com/${process.env
+    .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${listName}`;
+  const alaLink = getAlaListLink(target, dataResourceUid);
+
+  const updateBlocks = createMessageBlocks(
+    `List promotion: ${listName} (${source.name} → ${target.name})`,
+    [],
+    gitHubLink,
+    alaLink
+  );
+  const message = await say({
+    blocks: updateBlocks(
+      `📁  Preparing to promote \`${fileName}\`, validating and comparing with ${target.name}...`
+    ),
+  });
+
+  try {
+    // Promote exactly the file the source environment loaded, read at a fixed
+    // commit. Older jobs may only record HEAD, so check the blob still matches
+    const ref = await resolveCommitSha(
+      sourceJob.owner,
+      sourceJob.repo,
+      sourceJob.ref
+    );
+    const sha = await getFileSha(
+      sourceJob.owner,
+      sourceJob.repo,
+      sourceJob.path,
+      ref
+    );
+    if (!sourceJob.sha || sha !== sourceJob.sha) {
+      throw new Error(
+        `\`${fileName}\` at commit \`${ref.slice(0, 7)}\` is not the file ${
+          source.name
+        } loaded, reload it in ${source.name} first.`
+      );
+    }
+
+    // Each step streams the file afresh, so large files are never held in memory
+    const openFile = () =>
+      getFileStream(sourceJob.owner, sourceJob.repo, sourceJob.path, ref);
+
+    const summary = formatValidationReport(
+      await validateCsvStream(
+        await openFile(),
+        getSchemaForList(target.name, listName)
+      )
+    );
+
+    // Compare with the file production holds, or the previous file if unknown
+    const targetJob = findLastCompletedJob(listName, target.name);
+    const comparison = targetJob
+      ? await diffWithFile(
+          targetJob.owner,
+          targetJob.repo,
+          {
+            name: targetJob.path.split('/').pop()!,
+            path: targetJob.path,
+          },
+          targetJob.ref,
+          openFile
+        )
+      : await diffWithPreviousFile(
+          sourceJob.owner,
+          sourceJob.repo,
+          listName,
+          sourceJob.path,
+          ref,
+          openFile
+        );
+
+    if (comparison) {
+      summary.push(
+        ...formatDiffSummary(comparison.diff, comparison.previousFile.name)
+      );
+    }
+
+    const job = await enqueueReload({
+      listName,
+      dataResourceUid,
+      environment: target.name,
+      owner: sourceJob.owner,
+      repo: sourceJob.repo,
+      path: sourceJob.path,
+      ref,
+      sha: sourceJob.sha,
+      requireApproval: true,
+      title: `List promotion: ${listName} (${source.name} → ${target.name})`,
+      messages: [
+        `📁  Promoting \`${fileName}\`${
+          sourceJob.sha ? ` (SHA \`${sourceJob.sha.slice(0, 7)}\`)` : ''
+        } from ${source.name}, requested by <@${command.user_id}>`,
+        ...summary,
+      ],
+      gitHubLink,
+      alaLink,
+      slackMessage: { channel: message.channel!, ts: message.ts! },
+      trigger: { source: 'promotion', userId: command.user_id },
+    });
+
+    if (comparison) {
+      await uploadSlackFile(
+        job.slackMessage!,
+        `${listName}_promotion_diff.csv`,
+        formatDiffCsv(comparison.diff),
+        `Changes to ${listName} in ${target.name}`
+      );
+    }
+  } catch (error) {
+    console.error(`Promote command failed for ${listName}:`, error);
     await updateReloadMessage(
       message,
       updateBlocks(
-        `❌  List reload failed for: *${listName}*\n\n*Error:* ${error}`
+        `❌  List promotion failed for: *${listName}*\n\n*Error:* ${error}`
       )
     );
   }
 });
 
+// Helper function to format a timestamp in the reader's own time zone
+function formatSlackDate(timestamp: number): string {
+  return `<!date^${Math.floor(
+    timestamp / 1000
+  )}^{date_short_pretty} at {time}|${new Date(timestamp).toISOString()}>`;
+}
+
+// Helper function to link to a list file in the repository at a commit
+function formatFileLink(path: string, ref: string = 'main'): string {
+  return `<https://github.com/${
+    process.env.GITHUB_REPO
+  }/blob/${ref}/${encodeURI(path)}|${path.split('/').pop()}>`;
+}
+
+// Helper function to describe who or what queued a reload
+function formatJobTrigger(job: ReloadJob): string {
+  const by = job.trigger?.userId ? ` by <@${job.trigger.userId}>` : '';
+
+  switch (job.trigger?.source) {
+    case 'push':
+      return `a push of commit \`${job.ref.slice(0, 7)}\``;
+    case 'command':
+      return `\`/reload\`${by}`;
+    case 'rollback':
+      return `\`/rollback\`${by}`;
+    case 'promotion':
+      return `\`/promote\`${by}`;
+    case 'drift':
+      return 'the drift check';
+    default:
+      // Jobs journalled before triggers were recorded
+      return job.deliveryId ? 'a push' : 'an unknown source';
+  }
+}
+
+// Helper function to summarise a reload job as a Block Kit section
+function createJobSection(job: ReloadJob): slack.webApi.KnownBlock {
+  const lines = [
+    `${JOB_STATE_EMOJI[job.state]}  *${job.state.replace(
+      '_',
+      ' '
+    )}*  ${formatFileLink(job.path, job.ref)}`,
+    `Triggered by ${formatJobTrigger(job)} ${formatSlackDate(job.createdAt)}`,
+  ];
+
+  if (job.startedAt) {
+    const seconds = Math.round(
+      ((isFinished(job) ? job.updatedAt : Date.now()) - job.startedAt) / 1000
+    );
+    lines.push(
+      `${isFinished(job) ? 'Took' : 'Running for'} ${formatDuration(seconds)}`
+    );
+  }
+  if (job.approvedBy) lines.push(`Approved by <@${job.approvedBy}>`);
+  if (job.rejectedBy) lines.push(`Rejected by <@${job.rejectedBy}>`);
+  if (job.abandonedBy) lines.push(`Cancelled by <@${job.abandonedBy}>`);
+  if (job.ingested) {
+    lines.push(
+      `ALA version ${job.ingested.version}, ${job.ingested.rowCount} rows`
+    );
+  }
+  if (job.error) lines.push(`*Error:* ${job.error.slice(0, 500)}`);
+
+  return { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } };
+}
+
+// Helper function to read the list and environment a /status or /history
+// command refers to, replying with usage or the problem when they are invalid
+async function parseListCommand(
+  text: string,
+  usage: string,
+  say: slack.SayFn
+): Promise<{
+  listName: string;
+  environment: ListsEnvironment;
+  dataResourceUid: string;
+  flags: Record<string, string | true>;
+} | null> {
+  const { args, flags } = parseCommandArgs(text);
+  const [listName] = args;
+
+  if (!listName) {
+    await say(usage);
+    return null;
+  }
+
+  let environment;
+  try {
+    environment = getEnvironment(
+      typeof flags.env === 'string' ? flags.env : undefined
+    );
+  } catch (error) {
+    await say(`❌  ${(error as Error).message}`);
+    return null;
+  }
+
+  // Disabled lists still have a history worth looking at
+  const entry = getDataResourceEntry(environment.name, listName);
+  if (!entry) {
+    await say(formatMissingListMessage(environment.name, listName));
+    return null;
+  }
+
+  return { listName, environment, dataResourceUid: entry.uid, flags };
+}
+
+// Helper function to build the header and links shared by /status and /history
+function createListHeaderBlocks(
+  title: string,
+  listName: string,
+  environment: ListsEnvironment,
+  dataResourceUid: string
+): slack.webApi.KnownBlock[] {
+  const pin = getPin(environment.name, listName);
+
+  return [
+    { type: 'header', text: { type: 'plain_text', text: title, emoji: true } },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `View list on <https://github.com/${process.env
+          .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${listName}|GitHub>, or <${getAlaListLink(
+          environment,
+          dataResourceUid
+        )}|ALA> (\`${dataResourceUid}\`)${
+          pin
+            ? `\n📌  Pinned to ${formatFileLink(pin.path, pin.sha)} by <@${
+                pin.pinnedBy
+              }>`
+            : ''
+        }`,
+      },
+    },
+    { type: 'divider' },
+  ];
+}
+
+slackApp.command('/lists', async ({ command, ack, say }) => {
+  await ack();
+
+  const { flags } = parseCommandArgs(command.text);
+  let environment;
+  try {
+    environment = getEnvironment(
+      typeof flags.env === 'string' ? flags.env : undefined
+    );
+  } catch (error) {
+    await say(`❌  ${(error as Error).message}`);
+    return;
+  }
+
+  const listNames = Object.keys(getDataResourceConfig()[environment.name]);
+  if (listNames.length === 0) {
+    await say(
+      `❌  No lists are configured for ${environment.name}, add them to \`drs.json\` first.`
+    );
+    return;
+  }
+
+  try {
+    // Someone asking has likely just pushed or reloaded, so skip the cache
+    const { lists } = await getServiceStatus(true);
+    const sections = lists
+      .filter((list) => list.environment === environment!.name)
+      .map((list): slack.webApi.KnownBlock => {
+        const [lastJob] = listJobsForList(list.listName, environment!.name, 1);
+        const lines = [
+          `*<https://github.com/${process.env
+            .GITHUB_REPO!}/tree/main/imported_GoogleSheets/${list.listName}|${
+            list.listName
+          }>*${list.enabled ? '' : '  ⏸️ disabled'}${
+            list.drift ? '  ⚠️ behind git' : ''
+          }`,
+          `Data resource: <${list.alaLink}|${list.dataResourceUid}>`,
+          `Latest file: ${
+            list.newestFile
+              ? formatFileLink(list.newestFile.path)
+              : 'none found in git'
+          }`,
+          lastJob
+            ? `Last sync: ${JOB_STATE_EMOJI[lastJob.state]} ${
+                lastJob.state
+              } ${formatFileLink(lastJob.path, lastJob.ref)} ${formatSlackDate(
+                lastJob.createdAt
+              )}`
+            : 'Last sync: never reloaded by this service',
+        ];
+
+        return {
+          type: 'section',
+          text: { type: 'mrkdwn', text: lines.join('\n') },
+        };
+      });
+
+    await say({
+      text: `${sections.length} list(s) in ${environment.name}`,
+      blocks: [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: `Lists (${environment.name})`,
+            emoji: true,
+          },
+        },
+        ...sections.slice(0, MAX_MESSAGE_SECTIONS),
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `${
+                sections.length > MAX_MESSAGE_SECTIONS
+                  ? `Showing ${MAX_MESSAGE_SECTIONS} of ${sections.length} lists, see the status dashboard for the rest. `
+                  : ''
+              }Use \`/status <list_name>\` or \`/history <list_name>\` for more detail.`,
+            },
+          ],
+        },
+      ],
+    });
+  } catch (error) {
+    console.error('Lists command failed:', error);
+    await say(`❌  Could not list the data resources\n\n*Error:* ${error}`);
+  }
+});
+
+slackApp.command('/status', async ({ command, ack, say }) => {
+  await ack();
+
+  const parsed = await parseListCommand(
+    command.text,
+    '❌ *Usage:* `/status [list_name] [--env=test|prod]`\n\nExample: `/status Edible_species_list`\n\nShows the current or most recent reload of the list.',
+    say
+  );
+  if (!parsed) return;
+
+  const { listName, environment, dataResourceUid } = parsed;
+  const [job] = listJobsForList(listName, environment.name, 1);
+  const lastCompleted = findLastCompletedJob(listName, environment.name);
+
+  const blocks = createListHeaderBlocks(
+    `List status: ${listName} (${environment.name})`,
+    listName,
+    environment,
+    dataResourceUid
+  );
+  if (job) {
+    blocks.push(createJobSection(job));
+    if (lastCompleted && lastCompleted.id !== job.id) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Last successful reload loaded ${formatFileLink(
+              lastCompleted.path,
+              lastCompleted.ref
+            )} ${formatSlackDate(lastCompleted.updatedAt)}`,
+          },
+        ],
+      });
+    }
+  } else {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `No reloads of *${listName}* in ${environment.name} have been recorded.`,
+      },
+    });
+  }
+
+  await say({ text: `Status of ${listName} in ${environment.name}`, blocks });
+});
+
+slackApp.command('/history', async ({ command, ack, say }) => {
+  await ack();
+
+  const parsed = await parseListCommand(
+    command.text,
+    `❌ *Usage:* \`/history [list_name] [--limit=N] [--env=test|prod]\`\n\nExample: \`/history Edible_species_list --limit=5\`\n\nShows the last ${HISTORY_DEFAULT_SIZE} reloads of the list, up to ${HISTORY_MAX_SIZE} with \`--limit\`.`,
+    say
+  );
+  if (!parsed) return;
+
+  const { listName, environment, dataResourceUid, flags } = parsed;
+  const limit = Math.min(
+    Math.max(Math.floor(Number(flags.limit)) || HISTORY_DEFAULT_SIZE, 1),
+    HISTORY_MAX_SIZE
+  );
+  const jobs = listJobsForList(listName, environment.name, limit);
+
+  const blocks = createListHeaderBlocks(
+    `List history: ${listName} (${environment.name})`,
+    listName,
+    environment,
+    dataResourceUid
+  );
+  if (jobs.length > 0) {
+    blocks.push(...jobs.map(createJobSection));
+  } else {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `No reloads of *${listName}* in ${environment.name} have been recorded.`,
+      },
+    });
+  }
+
+  await say({
+    text: `Last ${jobs.length} reload(s) of ${listName} in ${environment.name}`,
+    blocks,
+  });
+});
+
+slackApp.action('approve_reload', async ({ ack, body, action, respond }) => {
+  await ack();
+
+  try {
+    await approveJob((action as slack.ButtonAction).value!, body.user.id);
+  } catch (error) {
+    console.error('Failed to approve reload:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌  ${(error as Error).message}`,
+    });
+  }
+});
+
+slackApp.action('reject_reload', async ({ ack, body, action, respond }) => {
+  await ack();
+
+  try {
+    await rejectJob((action as slack.ButtonAction).value!, body.user.id);
+  } catch (error) {
+    console.error('Failed to reject reload:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌  ${(error as Error).message}`,
+    });
+  }
+});
+
+slackApp.action('cancel_reload', async ({ ack, body, action, respond }) => {
+  await ack();
+
+  try {
+    await abandonJob((action as slack.ButtonAction).value!, body.user.id);
+  } catch (error) {
+    console.error('Failed to cancel reload:', error);
+    await respond({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: `❌  ${(error as Error).message}`,
+    });
+  }
+});
+
 slackApp.command('/clean', async ({ command, ack, say }) => {
   await ack();
 
@@ -240,3 +1264,19 @@ export async function sendSlackNotification(data: string | Blocks) {
         }
   );
 }
+
+// Helper function to attach a file to a message's thread
+export async function uploadSlackFile(
+  message: { ts?: string; channel?: string },
+  filename: string,
+  content: string,
+  title?: string
+) {
+  await slackApp.client.files.uploadV2({
+    channel_id: message.channel!,
+    thread_ts: message.ts!,
+    filename,
+    content,
+    title: title || filename,
+  });
+}
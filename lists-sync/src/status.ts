@@ -0,0 +1,315 @@
+import { getAlaClient } from './ala.js';
+import { EnvironmentName, getAlaListLink, getEnvironments } from './config.js';
+import { getDataResourceConfig } from './drs.js';
+import { ListFile, findLatestFileForList } from './github.js';
+import {
+  JobState,
+  ReloadJob,
+  findLastCompletedJob,
+  formatDuration,
+  isFinished,
+  listJobsForList,
+} from './jobs.js';
+import { getPin } from './pins.js';
+
+export interface JobSummary {
+  id: string;
+  state: JobState;
+  path: string;
+  ref: string;
+  createdAt: number;
+  // Milliseconds from starting to finishing, or so far for running jobs
+  durationMs: number | null;
+  error?: string;
+}
+
+export interface ListStatus {
+  listName: string;
+  environment: EnvironmentName;
+  dataResourceUid: string;
+  enabled: boolean;
+  alaLink: string;
+  // Current list version in ALA, null when ALA couldn't be reached
+  alaVersion: number | null;
+  alaError?: string;
+  // File and commit of the last successful reload by this service
+  lastLoaded: {
+    path: string;
+    ref: string;
+    sha?: string;
+    loadedAt: number;
+  } | null;
+  newestFile: ListFile | null;
+  gitHubError?: string;
+  // Git holds a newer file than ALA, null when nothing has been loaded yet
+  drift: boolean | null;
+  pinnedTo?: string;
+  recentJobs: JobSummary[];
+}
+
+export interface ServiceStatus {
+  generatedAt: number;
+  lists: ListStatus[];
+}
+
+// Configuration constants
+const STATUS_CACHE_TTL = 30000; // 30 seconds, the page hits GitHub and ALA for every list
+const RECENT_JOBS = 5;
+
+let cachedStatus: ServiceStatus | null = null;
+
+// Helper function to summarise a job for the status page
+function summariseJob(job: ReloadJob): JobSummary {
+  const start = job.startedAt;
+
+  return {
+    id: job.id,
+    state: job.state,
+    path: job.path,
+    ref: job.ref,
+    createdAt: job.createdAt,
+    durationMs: start
+      ? (isFinished(job) ? job.updatedAt : Date.now()) - start
+      : null,
+    error: job.error,
+  };
+}
+
+// Helper function to check whether git holds a newer file than ALA
+function hasDrift(
+  newestFile: ListFile | null,
+  lastLoaded: ReloadJob | null
+): boolean | null {
+  if (!newestFile) return false;
+  if (!lastLoaded) return null;
+
+  return (
+    newestFile.path !== lastLoaded.path ||
+    (!!lastLoaded.sha && newestFile.sha !== lastLoaded.sha)
+  );
+}
+
+/**
+ * Builds the status of every list in drs.json, in every environment, from
+ * the job history, the repository and ALA
+ */
+export async function getServiceStatus(
+  refresh: boolean = false
+): Promise<ServiceStatus> {
+  if (!refresh && cachedStatus) {
+    if (Date.now() - cachedStatus.generatedAt < STATUS_CACHE_TTL) {
+      return cachedStatus;
+    }
+  }
+
+  const config = getDataResourceConfig();
+  const newestFiles = new Map<
+    string,
+    Promise<{ file: ListFile | null; error?: string }>
+  >();
+
+  const lists = await Promise.all(
+    getEnvironments().flatMap((environment) =>
+      Object.entries(config[environment.name]).map(
+        async ([listName, entry]): Promise<ListStatus> => {
+          // The newest file is the same for every environment
+          if (!newestFiles.has(listName)) {
+            newestFiles.set(
+              listName,
+              findLatestFileForList(listName).then(
+                (file) => ({ file }),
+                (error) => ({ file: null, error: String(error) })
+              )
+            );
+          }
+
+          let alaVersion: number | null = null;
+          let alaError: string | undefined;
+          try {
+            const list = await getAlaClient(environment).getSpeciesList(
+              entry.uid
+            );
+            alaVersion = list.version;
+          } catch (error) {
+            alaError = String(error);
+          }
+
+          const { file: newestFile, error: gitHubError } =
+            await newestFiles.get(listName)!;
+          const lastLoaded = findLastCompletedJob(listName, environment.name);
+
+          return {
+            listName,
+            environment: environment.name,
+            dataResourceUid: entry.uid,
+            enabled: entry.enabled,
+            alaLink: getAlaListLink(environment, entry.uid),
+            alaVersion,
+            alaError,
+            lastLoaded: lastLoaded && {
+              path: lastLoaded.path,
+              ref: lastLoaded.ref,
+              sha: lastLoaded.sha,
+              loadedAt: lastLoaded.updatedAt,
+            },
+            newestFile,
+            gitHubError,
+            drift: hasDrift(newestFile, lastLoaded),
+            pinnedTo: getPin(environment.name, listName)?.path,
+            recentJobs: listJobsForList(
+              listName,
+              environment.name,
+              RECENT_JOBS
+            ).map(summariseJob),
+          };
+        }
+      )
+    )
+  );
+
+  cachedStatus = { generatedAt: Date.now(), lists };
+  return cachedStatus;
+}
+
+/**
+ * Strips ALA, GitHub and job error details from a status, for callers without
+ * the admin token
+ */
+export function withoutErrorDetails(status: ServiceStatus): ServiceStatus {
+  return {
+    ...status,
+    lists: status.lists.map((list) => ({
+      ...list,
+      alaError: undefined,
+      gitHubError: undefined,
+      recentJobs: list.recentJobs.map((job) => ({ ...job, error: undefined })),
+    })),
+  };
+}
+
+// Helper function to escape text for HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Helper function to format a timestamp for the status page
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// Helper function to link to a file in the repository at a commit
+function gitHubFileLink(path: string, ref: string, label: string): string {
+  const url = `https://github.com/${process.env.GITHUB_REPO}/blob/${ref}/${path}`;
+  return `<a href="${escapeHtml(encodeURI(url))}">${escapeHtml(label)}</a>`;
+}
+
+// Helper function to render a list's row of the status table
+function renderListRow(list: ListStatus): string {
+  const fileName = (path: string) => path.split('/').pop()!;
+
+  const drift =
+    list.drift === null
+      ? '<span class="unknown">unknown</span>'
+      : list.drift
+      ? `<span class="drift">behind git</span>${
+          list.pinnedTo
+            ? `<br><small>pinned to ${escapeHtml(
+                fileName(list.pinnedTo)
+              )}</small>`
+            : ''
+        }`
+      : '<span class="ok">up to date</span>';
+
+  const jobs = list.recentJobs
+    .map(
+      (job) =>
+        `<li class="${job.state}" title="${escapeHtml(job.error || '')}">${
+          job.state
+        } ${escapeHtml(fileName(job.path))} <small>${formatTime(
+          job.createdAt
+        )} ${
+          job.durationMs === null ? '' : formatDuration(job.durationMs / 1000)
+        }</small>${
+          job.error
+            ? `<br><small class="error">${escapeHtml(
+                job.error.slice(0, 200)
+              )}</small>`
+            : ''
+        }</li>`
+    )
+    .join('');
+
+  return `<tr${list.enabled ? '' : ' class="disabled"'}>
+  <td>${escapeHtml(list.listName)}${
+    list.enabled ? '' : ' <small>(disabled)</small>'
+  }</td>
+  <td>${escapeHtml(list.environment)}</td>
+  <td><a href="${escapeHtml(list.alaLink)}">${escapeHtml(
+    list.dataResourceUid
+  )}</a></td>
+  <td>${
+    list.alaVersion ??
+    `<span class="error" title="${escapeHtml(list.alaError || '')}">?</span>`
+  }</td>
+  <td>${
+    list.lastLoaded
+      ? `${gitHubFileLink(
+          list.lastLoaded.path,
+          list.lastLoaded.ref,
+          fileName(list.lastLoaded.path)
+        )}<br><small>${escapeHtml(
+          list.lastLoaded.ref.slice(0, 7)
+        )} at ${formatTime(list.lastLoaded.loadedAt)}</small>`
+      : ''
+  }</td>
+  <td>${
+    list.newestFile
+      ? gitHubFileLink(list.newestFile.path, 'main', list.newestFile.name)
+      : list.gitHubError
+      ? `<span class="error" title="${escapeHtml(list.gitHubError)}">?</span>`
+      : ''
+  }</td>
+  <td>${drift}</td>
+  <td><ul>${jobs}</ul></td>
+</tr>`;
+}
+
+/**
+ * Renders the service status as a simple HTML page
+ */
+export function renderStatusPage(status: ServiceStatus): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ARGA Lists Sync status</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+  ul { margin: 0; padding-left: 1rem; }
+  .ok, .completed { color: #1a7f37; }
+  .drift, .failed, .error { color: #cf222e; }
+  .unknown, .disabled, .rejected, .abandoned { color: #6e7781; }
+</style>
+</head>
+<body>
+<h1>ARGA Lists Sync status</h1>
+<p>Generated ${formatTime(status.generatedAt)} UTC</p>
+<table>
+<thead>
+<tr><th>List</th><th>Environment</th><th>Data resource</th><th>ALA version</th><th>Last loaded</th><th>Newest in git</th><th>Drift</th><th>Recent reloads</th></tr>
+</thead>
+<tbody>
+${status.lists.map(renderListRow).join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,256 @@
+import assert from 'assert/strict';
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+import { text } from 'stream/consumers';
+
+import {
+  AlaListsClient,
+  AlaRequestError,
+  AlaResponseError,
+  AlaUnavailableError,
+  CircuitEvent,
+} from '../ala.js';
+import { previewUpload } from '../lists.js';
+import { verifyIngestion } from '../verification.js';
+import { MockAlaServer } from './mock-ala.js';
+
+const VALID_CSV =
+  'scientificName,vernacularName\nMacropus rufus,Red kangaroo\n';
+
+describe('AlaListsClient', () => {
+  const ala = new MockAlaServer();
+
+  before(async () => {
+    // The client logs every request, keep the test output readable
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    await ala.start();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await ala.stop();
+  });
+
+  beforeEach(() => {
+    ala.lists.clear();
+    ala.requests = [];
+    ala.failures = [];
+    ala.ingestionChecks = 0;
+    ala.unmatchedNames.clear();
+  });
+
+  // Helper function to ingest a file into a list, returning what
+  // verification needs
+  const ingest = async (client: AlaListsClient, uid: string, csv: string) => {
+    const list = await client.getSpeciesList(uid);
+    const upload = await previewUpload(ala.environment(), uid, csv);
+    await client.ingest(list.id, upload.localFile);
+
+    return {
+      baseline: {
+        previousVersion: list.version,
+        uploadedRowCount: upload.rowCount,
+      },
+      progress: await client.waitForIngestion(list.id),
+    };
+  };
+
+  test('fetches a species list', async () => {
+    ala.addList('dr1', { title: 'Kangaroos' });
+    const client = new AlaListsClient(ala.clientConfig());
+
+    const list = await client.getSpeciesList('dr1');
+    assert.equal(list.title, 'Kangaroos');
+    assert.equal(list.dataResourceUid, 'dr1');
+  });
+
+  test('fails on missing lists without retrying', async () => {
+    const client = new AlaListsClient(ala.clientConfig());
+
+    await assert.rejects(client.getSpeciesList('dr404'), (error) => {
+      assert.ok(error instanceof AlaRequestError);
+      assert.equal(error.status, 404);
+      return true;
+    });
+    assert.equal(ala.requests.length, 1);
+  });
+
+  test('rejects responses missing expected fields', async () => {
+    // ALA answering with a version that isn't a number
+    Object.assign(ala.addList('dr1'), { version: 'latest' });
+    const client = new AlaListsClient(ala.clientConfig());
+
+    await assert.rejects(client.getSpeciesList('dr1'), AlaResponseError);
+  });
+
+  test('reports ALA validation errors for an upload', async () => {
+    const upload = await previewUpload(
+      ala.environment(),
+      'Kangaroos',
+      'scientificName,vernacularName\n,Red kangaroo\n'
+    );
+
+    assert.deepEqual(upload.validationErrors, [
+      'SOME_RECORDS_WITHOUT_SCIENTIFIC_NAME',
+    ]);
+  });
+
+  test('ingests an upload once ALA finishes slowly', async () => {
+    const list = ala.addList('dr1');
+    ala.ingestionChecks = 3;
+    const client = new AlaListsClient(ala.clientConfig());
+
+    const upload = await previewUpload(ala.environment(), 'dr1', VALID_CSV);
+    assert.equal(upload.validationErrors, null);
+    assert.equal(upload.rowCount, 1);
+
+    await client.ingest(list.id, upload.localFile);
+    await client.waitForIngestion(list.id);
+
+    const progressChecks = ala.requests.filter((request) =>
+      request.endsWith('/progress')
+    );
+    assert.equal(progressChecks.length, 4);
+    assert.equal((await client.getSpeciesList('dr1')).rowCount, 1);
+    assert.equal(await text(await client.downloadList(list.id)), VALID_CSV);
+  });
+
+  test('gives up on ingestions that never finish', async () => {
+    const list = ala.addList('dr1');
+    ala.ingestionChecks = Infinity;
+    const client = new AlaListsClient(
+      ala.clientConfig({ maxProgressAttempts: 3 })
+    );
+
+    const upload = await previewUpload(ala.environment(), 'dr1', VALID_CSV);
+    await client.ingest(list.id, upload.localFile);
+
+    await assert.rejects(
+      client.waitForIngestion(list.id),
+      /did not complete within .* \(3 attempts\)/
+    );
+  });
+
+  test('retries rate limits and server errors', async () => {
+    ala.addList('dr1');
+    ala.failures = [429, 503];
+    const client = new AlaListsClient(ala.clientConfig());
+
+    await client.getSpeciesList('dr1');
+    assert.equal(ala.requests.length, 3);
+  });
+
+  test('does not retry starting an ingestion', async () => {
+    const list = ala.addList('dr1');
+    const client = new AlaListsClient(ala.clientConfig());
+    const upload = await previewUpload(ala.environment(), 'dr1', VALID_CSV);
+
+    // A gateway error may come after ALA has started ingesting
+    ala.failures = [502];
+    await assert.rejects(
+      client.ingest(list.id, upload.localFile),
+      AlaRequestError
+    );
+    assert.equal(
+      ala.requests.filter((request) => request.startsWith('POST /v2/ingest'))
+        .length,
+      1
+    );
+  });
+
+  test('refreshes a revoked access token', async () => {
+    ala.addList('dr1');
+    const client = new AlaListsClient(ala.clientConfig());
+    await client.getSpeciesList('dr1');
+
+    const tokensIssued = ala.tokensIssued;
+    ala.revokeTokens();
+
+    await client.getSpeciesList('dr1');
+    assert.equal(ala.tokensIssued, tokensIssued + 1);
+  });
+
+  test('pauses requests after repeated failures', async () => {
+    ala.addList('dr1');
+    ala.failures = [500, 500];
+    const events: CircuitEvent[] = [];
+    const client = new AlaListsClient(
+      ala.clientConfig({
+        maxRetries: 0,
+        circuitFailureThreshold: 2,
+        onCircuitChange: (event) => {
+          events.push(event);
+        },
+      })
+    );
+
+    await assert.rejects(client.getSpeciesList('dr1'), AlaRequestError);
+    await assert.rejects(client.getSpeciesList('dr1'), AlaRequestError);
+    assert.deepEqual(events, ['opened']);
+
+    await assert.rejects(client.getSpeciesList('dr1'), AlaUnavailableError);
+    assert.equal(ala.requests.length, 2);
+    assert.equal(client.isAvailable(), false);
+  });
+
+  test('updates list metadata, keeping other details', async () => {
+    ala.addList('dr1', { title: 'Kangaroos', licence: 'CC-BY' });
+    const client = new AlaListsClient(ala.clientConfig());
+
+    const list = await client.updateListMetadata('dr1', {
+      title: 'Macropods',
+    });
+    assert.equal(list.title, 'Macropods');
+    assert.equal(ala.lists.get('dr1')!.licence, 'CC-BY');
+  });
+
+  test('verifies an ingested list', async () => {
+    ala.addList('dr1');
+    const client = new AlaListsClient(ala.clientConfig());
+    const { baseline, progress } = await ingest(client, 'dr1', VALID_CSV);
+
+    const report = await verifyIngestion(client, 'dr1', baseline, progress);
+    assert.equal(report.verified, true);
+    assert.deepEqual(report.issues, []);
+    assert.equal(report.version, 2);
+    assert.equal(report.sampledNames, 1);
+  });
+
+  test('fails verification when ALA did not take the new rows', async () => {
+    ala.addList('dr1');
+    const client = new AlaListsClient(ala.clientConfig());
+    const { progress } = await ingest(client, 'dr1', VALID_CSV);
+
+    const report = await verifyIngestion(
+      client,
+      'dr1',
+      { previousVersion: 2, uploadedRowCount: 3 },
+      { ...progress, elasticTotal: 0 }
+    );
+    assert.equal(report.verified, false);
+    assert.deepEqual(
+      report.issues.map(({ severity, code }) => [severity, code]),
+      [
+        ['error', 'VERSION_NOT_INCREASED'],
+        ['error', 'ROW_COUNT_MISMATCH'],
+        ['warning', 'INDEX_COUNT_MISMATCH'],
+      ]
+    );
+  });
+
+  test('warns about names that did not match a taxon', async () => {
+    ala.addList('dr1');
+    ala.unmatchedNames.add('Macropus notarealus');
+    const client = new AlaListsClient(ala.clientConfig());
+    const { baseline, progress } = await ingest(
+      client,
+      'dr1',
+      `${VALID_CSV}Macropus notarealus,Imaginary kangaroo\n`
+    );
+
+    const report = await verifyIngestion(client, 'dr1', baseline, progress);
+    assert.equal(report.verified, true);
+    assert.deepEqual(report.unmatchedNames, ['Macropus notarealus']);
+    assert.equal(report.issues[0].code, 'UNMATCHED_NAMES');
+    assert.equal(report.issues[0].severity, 'warning');
+  });
+});
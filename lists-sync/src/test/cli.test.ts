@@ -0,0 +1,147 @@
+import assert from 'assert/strict';
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { after, before, describe, test } from 'node:test';
+import { gzipSync } from 'zlib';
+
+import { MockAlaServer } from './mock-ala.js';
+
+const CLI_PATH = fileURLToPath(new URL('../cli.js', import.meta.url));
+
+const OLD_CSV = 'scientificName,vernacularName\nMacropus rufus,Red kangaroo\n';
+const NEW_CSV = `${OLD_CSV}Macropus giganteus,Eastern grey kangaroo\n`;
+
+describe('lists-sync CLI', () => {
+  const ala = new MockAlaServer();
+  let rootDir: string;
+  let listDir: string;
+
+  // Helper function to run the CLI against the test checkout, with only the
+  // given settings so nothing leaks in from the test environment
+  const run = (args: string[], env: Record<string, string> = {}) =>
+    new Promise<{ code: number; stdout: string; stderr: string }>((resolve) => {
+      execFile(
+        process.execPath,
+        [CLI_PATH, ...args, '--root', rootDir],
+        {
+          cwd: rootDir,
+          env: { PATH: process.env.PATH, DATA_DIR: rootDir, ...env },
+          timeout: 30000,
+        },
+        (error, stdout, stderr) =>
+          resolve({
+            code: error ? Number(error.code) || 1 : 0,
+            stdout,
+            stderr,
+          })
+      );
+    });
+
+  before(async () => {
+    await ala.start();
+    rootDir = await mkdtemp(join(tmpdir(), 'lists-sync-cli-'));
+    listDir = join(rootDir, 'imported_GoogleSheets', 'Kangaroos');
+    await mkdir(listDir, { recursive: true });
+    await writeFile(
+      join(rootDir, 'drs.json'),
+      JSON.stringify({ prod: {}, test: { Kangaroos: 'dr1' } })
+    );
+    await writeFile(join(listDir, 'Kangaroos_2024-01-01.csv'), OLD_CSV);
+    await writeFile(
+      join(listDir, 'Kangaroos_2024-02-01.csv.gz'),
+      gzipSync(NEW_CSV)
+    );
+  });
+  after(async () => {
+    await ala.stop();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  test('validates local files, including gzipped ones', async () => {
+    const valid = await run([
+      'validate',
+      join(listDir, 'Kangaroos_2024-02-01.csv.gz'),
+    ]);
+    assert.equal(valid.code, 0);
+    assert.match(valid.stdout, /\(Kangaroos\)/);
+    assert.match(valid.stdout, /Validation passed: 2 rows, 2 columns/);
+
+    const invalidFile = join(rootDir, 'invalid.csv');
+    await writeFile(invalidFile, 'vernacularName\nRed kangaroo\n');
+    const invalid = await run(['validate', invalidFile, '--list', 'Kangaroos']);
+    assert.equal(invalid.code, 1);
+    assert.match(invalid.stdout, /MISSING_COLUMN/);
+  });
+
+  test('diffs two local files', async () => {
+    const result = await run([
+      'diff',
+      join(listDir, 'Kangaroos_2024-01-01.csv'),
+      join(listDir, 'Kangaroos_2024-02-01.csv.gz'),
+    ]);
+
+    assert.equal(result.code, 0);
+    assert.match(
+      result.stdout,
+      /Changes since `Kangaroos_2024-01-01.csv`: 1 added, 0 removed/
+    );
+  });
+
+  test('checks drs.json, failing on errors', async () => {
+    const passed = await run(['drs', 'check']);
+    assert.equal(passed.code, 0);
+    assert.match(passed.stdout, /1 test and 0 production lists enabled/);
+    assert.match(passed.stdout, /No problems found/);
+
+    await writeFile(
+      join(rootDir, 'drs.json'),
+      JSON.stringify({ prod: { Wombats: 'dr2' }, test: { Kangaroos: 'dr1' } })
+    );
+    const failed = await run(['drs', 'check']);
+    await writeFile(
+      join(rootDir, 'drs.json'),
+      JSON.stringify({ prod: {}, test: { Kangaroos: 'dr1' } })
+    );
+    assert.equal(failed.code, 1);
+    assert.match(
+      failed.stdout,
+      /`prod → Wombats`: No `imported_GoogleSheets\/Wombats` folder exists/
+    );
+  });
+
+  test('reports a list without ALA credentials', async () => {
+    const result = await run(['status', 'Kangaroos']);
+
+    assert.equal(result.code, 0);
+    assert.match(result.stdout, /dr1/);
+    assert.match(result.stdout, /Latest file: Kangaroos_2024-02-01.csv.gz/);
+    assert.match(result.stdout, /Could not fetch ALA details/);
+  });
+
+  test('reloads the newest local file into ALA', async () => {
+    const list = ala.addList('dr1', { title: 'Kangaroos' });
+
+    const result = await run(['reload', 'Kangaroos'], {
+      LISTS_ENVIRONMENTS: 'test',
+      LISTS_TEST_API_ENDPOINT: ala.url,
+      LISTS_AUTH_URL: `${ala.url}/oauth2/token`,
+      LISTS_AUTH_CLIENT_ID: 'client',
+      LISTS_AUTH_CLIENT_SECRET: 'secret',
+      ALA_PROGRESS_INTERVAL: '1',
+    });
+
+    assert.equal(result.code, 0, result.stderr);
+    assert.match(result.stdout, /List reload completed successfully/);
+    assert.equal(ala.content.get(list.id), NEW_CSV);
+  });
+
+  test('rejects unknown commands', async () => {
+    const result = await run(['publish']);
+
+    assert.equal(result.code, 1);
+    assert.match(result.stderr, /Unknown command: publish/);
+  });
+});
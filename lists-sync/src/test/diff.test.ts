@@ -0,0 +1,138 @@
+import assert from 'assert/strict';
+import { Readable } from 'stream';
+import { describe, test } from 'node:test';
+
+import {
+  ListDiff,
+  diffCsv,
+  formatDiffCsv,
+  formatDiffSummary,
+} from '../diff.js';
+
+const PREVIOUS = [
+  'scientificName,vernacularName,status,notes',
+  'Acacia dealbata,Silver wattle,native,',
+  'Macropus rufus,Red kangaroo,native,',
+  'Felis catus,Cat,introduced,',
+  'Vulpes vulpes,Red fox,introduced,',
+  'Vulpes vulpes,Fox,introduced,',
+].join('\n');
+
+const CURRENT = [
+  'scientificName,vernacularName,status,source',
+  'Macropus rufus,Red kangaroo,native,ALA',
+  'Acacia dealbata,Silver wattle,threatened,ALA',
+  'Eucalyptus regnans,Mountain ash,native,ALA',
+  'Vulpes vulpes,Fox,introduced,ALA',
+  'Vulpes vulpes,Red fox,introduced,ALA',
+].join('\n');
+
+// Helper function to diff two CSV strings
+const diff = (previous: string, current: string) =>
+  diffCsv(
+    () => previous,
+    () => current
+  );
+
+describe('diffCsv', () => {
+  test('reports added, removed and changed names and columns', async () => {
+    assert.deepEqual(await diff(PREVIOUS, CURRENT), {
+      added: ['Eucalyptus regnans'],
+      removed: ['Felis catus'],
+      changed: [
+        {
+          scientificName: 'Acacia dealbata',
+          changes: [
+            { column: 'status', before: 'native', after: 'threatened' },
+          ],
+        },
+      ],
+      // Reordered rows, including duplicates, are unchanged
+      unchanged: 2,
+      addedColumns: ['source'],
+      removedColumns: ['notes'],
+    });
+  });
+
+  test('reads each file from a fresh stream per pass', async () => {
+    let opened = 0;
+    const open = (csv: string) => () => {
+      opened++;
+      return Readable.from([Buffer.from(csv)]);
+    };
+
+    const result = await diffCsv(open(PREVIOUS), open(CURRENT));
+
+    assert.equal(result.changed.length, 1);
+    // Both files are read again to collect the changed rows
+    assert.equal(opened, 4);
+  });
+
+  test('only opens each file once when nothing changed', async () => {
+    let opened = 0;
+    const open = () => {
+      opened++;
+      return PREVIOUS;
+    };
+
+    const result = await diffCsv(open, open);
+
+    assert.equal(result.unchanged, 4);
+    assert.equal(opened, 2);
+  });
+
+  test('rejects a file without a scientificName column', async () => {
+    await assert.rejects(
+      diff(PREVIOUS, 'name\nAcacia dealbata\n'),
+      /no `scientificName` column/
+    );
+  });
+});
+
+describe('formatDiffSummary', () => {
+  const summary: ListDiff = {
+    added: ['a', 'b', 'c'],
+    removed: [],
+    changed: [{ scientificName: 'd', changes: [] }],
+    unchanged: 10,
+    addedColumns: ['source', ''],
+    removedColumns: [],
+  };
+
+  test('summarises counts and samples names', () => {
+    assert.deepEqual(formatDiffSummary(summary, 'old.csv', 2), [
+      '🧮  Changes since `old.csv`: 3 added, 0 removed, 1 changed, 10 unchanged',
+      '• Added: _a, b and 1 more_',
+      '• Changed: _d_',
+      '• New columns: `source`, _(blank)_',
+    ]);
+  });
+});
+
+describe('formatDiffCsv', () => {
+  test('writes one quoted line per added, removed or changed value', async () => {
+    assert.equal(
+      formatDiffCsv(await diff(PREVIOUS, CURRENT)),
+      [
+        '"change","scientificName","column","before","after"',
+        '"added","Eucalyptus regnans","","",""',
+        '"removed","Felis catus","","",""',
+        '"changed","Acacia dealbata","status","native","threatened"',
+      ].join('\n')
+    );
+  });
+
+  test('escapes quotes in values', () => {
+    assert.equal(
+      formatDiffCsv({
+        added: ['Acacia "sp. 1"'],
+        removed: [],
+        changed: [],
+        unchanged: 0,
+        addedColumns: [],
+        removedColumns: [],
+      }).split('\n')[1],
+      '"added","Acacia ""sp. 1""","","",""'
+    );
+  });
+});
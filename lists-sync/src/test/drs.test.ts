@@ -0,0 +1,147 @@
+import assert from 'assert/strict';
+import { describe, test } from 'node:test';
+
+import { DrsIssue, formatDrsIssues, parseDrsConfig } from '../drs.js';
+import { listSchemas } from '../schemas.js';
+
+const FOLDERS = ['Edible_species_list', 'native_species', 'lichen_species'];
+
+// Helper function to summarise issues as `severity env/list: message`
+const summarise = (issues: DrsIssue[]) =>
+  issues.map(
+    ({ severity, environment, listName, message }) =>
+      `${severity} ${environment ?? ''}/${listName ?? ''}: ${message}`
+  );
+
+describe('parseDrsConfig', () => {
+  test('accepts bare UIDs and entry objects', () => {
+    const { config, drMap, issues } = parseDrsConfig(
+      JSON.stringify({
+        prod: {
+          Edible_species_list: 'dr1',
+          native_species: {
+            uid: 'dr2',
+            displayName: 'Native species',
+            owner: 'U012AB3CD',
+            schema: 'native_species',
+          },
+        },
+        test: { lichen_species: { uid: 'dr3', enabled: false } },
+      }),
+      FOLDERS
+    );
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(config.prod.Edible_species_list, {
+      uid: 'dr1',
+      enabled: true,
+    });
+    assert.equal(config.prod.native_species.owner, 'U012AB3CD');
+    assert.equal(config.test.lichen_species.enabled, false);
+    // Disabled lists are kept in the config but not reloaded
+    assert.deepEqual(drMap, {
+      prod: { Edible_species_list: 'dr1', native_species: 'dr2' },
+      test: {},
+    });
+  });
+
+  test('throws when the file is not shaped like drs.json', () => {
+    assert.throws(() => parseDrsConfig('{', null), /not valid JSON/);
+    assert.throws(
+      () => parseDrsConfig('["dr1"]', null),
+      /must be an object with `prod` and `test` keys/
+    );
+  });
+
+  test('drops invalid entries and reports why', () => {
+    const { config, issues } = parseDrsConfig(
+      JSON.stringify({
+        prod: {
+          Edible_species_list: 'not-a-uid',
+          native_species: {
+            uid: 'dr2',
+            owner: 'someone',
+            enabled: 'yes',
+            schema: 'unknown_schema',
+          },
+          lichen_species: 42,
+        },
+        test: [],
+        staging: {},
+      }),
+      FOLDERS
+    );
+
+    assert.deepEqual(config, { prod: {}, test: {} });
+    assert.deepEqual(summarise(issues), [
+      'warning /: Unknown environment `staging` is ignored',
+      'error prod/Edible_species_list: `uid` must look like `dr12345`, got `not-a-uid`',
+      'error prod/native_species: `owner` must be a Slack user ID, e.g. `U012AB3CD`',
+      'error prod/native_species: `enabled` must be `true` or `false`',
+      `error prod/native_species: \`schema\` must be one of: ${Object.keys(
+        listSchemas
+      ).join(', ')}`,
+      'error prod/lichen_species: Entry must be a data resource UID or an object with a `uid`',
+      'error test/: Section must be an object of list names to entries',
+    ]);
+  });
+
+  test('warns about unknown properties but keeps the entry', () => {
+    const { config, issues } = parseDrsConfig(
+      JSON.stringify({ test: { native_species: { uid: 'dr2', note: 'x' } } }),
+      FOLDERS
+    );
+
+    assert.equal(config.test.native_species.uid, 'dr2');
+    assert.deepEqual(summarise(issues), [
+      'warning test/native_species: Unknown property `note` is ignored',
+    ]);
+  });
+
+  test('drops every list sharing a UID within an environment', () => {
+    const { config, issues } = parseDrsConfig(
+      JSON.stringify({
+        prod: { Edible_species_list: 'dr1', native_species: 'dr1' },
+        test: { Edible_species_list: 'dr1', lichen_species: 'dr9' },
+      }),
+      FOLDERS
+    );
+
+    assert.deepEqual(config.prod, {});
+    // The same UID in another environment is fine
+    assert.deepEqual(Object.keys(config.test), [
+      'Edible_species_list',
+      'lichen_species',
+    ]);
+    assert.deepEqual(summarise(issues), [
+      'error prod/Edible_species_list: `dr1` is also used by `native_species`',
+      'error prod/native_species: `dr1` is also used by `Edible_species_list`',
+    ]);
+  });
+
+  test('drops lists without a folder unless folders are unknown', () => {
+    const content = JSON.stringify({ prod: { Removed_list: 'dr5' } });
+
+    const checked = parseDrsConfig(content, FOLDERS);
+    assert.deepEqual(checked.config.prod, {});
+    assert.deepEqual(summarise(checked.issues), [
+      'error prod/Removed_list: No `imported_GoogleSheets/Removed_list` folder exists',
+    ]);
+
+    const unchecked = parseDrsConfig(content, null);
+    assert.equal(unchecked.config.prod.Removed_list.uid, 'dr5');
+    assert.deepEqual(unchecked.issues, []);
+  });
+});
+
+describe('formatDrsIssues', () => {
+  test('prefixes each issue with its icon and location', () => {
+    assert.deepEqual(
+      formatDrsIssues([
+        { severity: 'error', environment: 'prod', listName: 'a', message: 'x' },
+        { severity: 'warning', message: 'y' },
+      ]),
+      ['❌  `prod → a`: x', '⚠️  y']
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import assert from 'assert/strict';
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+import { gzipSync } from 'zlib';
+
+import { MockGitHubServer } from './mock-github.js';
+
+const REPOSITORY = 'ARGA-Genomes/lists';
+const LIST_FOLDER = 'imported_GoogleSheets/Kangaroos';
+const OLD_FILE = `${LIST_FOLDER}/Kangaroos_2024-01-01T00-00-00.000Z.csv`;
+const NEW_FILE = `${LIST_FOLDER}/Kangaroos_2024-02-01T00-00-00.000Z.csv`;
+
+const CSV = 'scientificName,vernacularName\nMacropus rufus,Red kangaroo\n';
+
+describe('GitHub files', () => {
+  const github = new MockGitHubServer();
+
+  // The GitHub client is created when the module is imported
+  let githubModule: typeof import('../github.js');
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    await github.start();
+
+    Object.assign(process.env, {
+      GITHUB_REPO: REPOSITORY,
+      GITHUB_API_URL: github.url,
+    });
+    githubModule = await import('../github.js');
+  });
+  after(async () => {
+    mock.restoreAll();
+    await github.stop();
+  });
+
+  beforeEach(() => {
+    github.files.clear();
+    github.requests = [];
+    github.failures = [];
+    github.maxInlineSize = 1024 * 1024;
+    github.setFile(OLD_FILE, CSV);
+    github.setFile(NEW_FILE, `${CSV}Macropus giganteus,Eastern grey\n`);
+  });
+
+  // Helper function to fetch a file from the test repository
+  const getFile = (path: string) =>
+    githubModule.getFileContent('ARGA-Genomes', 'lists', path, 'HEAD');
+
+  // Helper function to get the error a promise rejects with
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as InstanceType<typeof githubModule.GitHubFileError>;
+    }
+    assert.fail('Expected the promise to reject');
+  };
+
+  describe('getFileContent', () => {
+    test('reads a small file from the contents API', async () => {
+      assert.equal(await getFile(OLD_FILE), CSV);
+      assert.equal(github.requests.length, 1);
+    });
+
+    test('downloads a large file as a raw blob', async () => {
+      github.maxInlineSize = 10;
+
+      assert.equal(await getFile(OLD_FILE), CSV);
+      assert.match(
+        github.requests[1],
+        /^GET \/repos\/.+\/git\/blobs\/[0-9a-f]{40}$/
+      );
+    });
+
+    test('decompresses gzipped files, inline or as a blob', async () => {
+      const path = `${LIST_FOLDER}/Kangaroos_2024-03-01T00-00-00.000Z.csv.gz`;
+      github.setFile(path, gzipSync(CSV));
+
+      assert.equal(await getFile(path), CSV);
+      github.maxInlineSize = 10;
+      assert.equal(await getFile(path), CSV);
+    });
+
+    test('reports a corrupt gzipped file as DECODE_FAILED', async () => {
+      const path = `${LIST_FOLDER}/Kangaroos_2024-03-01T00-00-00.000Z.csv.gz`;
+      github.setFile(path, 'not gzip');
+
+      const error = await rejection(getFile(path));
+      assert.ok(error instanceof githubModule.GitHubFileError);
+      assert.equal(error.code, 'DECODE_FAILED');
+      assert.equal(error.path, path);
+    });
+
+    test('reports a missing file as NOT_FOUND without retrying', async () => {
+      const error = await rejection(getFile(`${LIST_FOLDER}/missing.csv`));
+
+      assert.equal(error.code, 'NOT_FOUND');
+      assert.equal(github.requests.length, 1);
+    });
+
+    test('reports an exhausted rate limit without retrying', async () => {
+      github.failures = [403];
+
+      const error = await rejection(getFile(OLD_FILE));
+
+      assert.equal(error.code, 'RATE_LIMITED');
+      assert.equal(github.requests.length, 1);
+    });
+
+    test('retries server errors', async () => {
+      github.failures = [502];
+
+      assert.equal(await getFile(OLD_FILE), CSV);
+      assert.equal(github.requests.length, 2);
+    });
+  });
+
+  describe('listFilesForList', () => {
+    test('lists CSV files newest first', async () => {
+      github.setFile(`${LIST_FOLDER}/notes.txt`, 'not a list file');
+
+      const files = await githubModule.listFilesForList('Kangaroos');
+
+      assert.deepEqual(
+        files.map((file) => file.path),
+        [NEW_FILE, OLD_FILE]
+      );
+    });
+
+    test('treats a missing folder as a list without files', async () => {
+      assert.deepEqual(await githubModule.listFilesForList('Wombats'), []);
+    });
+
+    test('throws other failures rather than returning no files', async () => {
+      github.failures = [403];
+
+      const error = await rejection(githubModule.listFilesForList('Kangaroos'));
+
+      assert.ok(error instanceof githubModule.GitHubFileError);
+      assert.equal(error.code, 'RATE_LIMITED');
+    });
+
+    test('finds the latest file and the one before it', async () => {
+      const latest = await githubModule.findLatestFileForList('Kangaroos');
+
+      assert.equal(latest?.path, NEW_FILE);
+      assert.equal(latest?.previous?.path, OLD_FILE);
+      assert.equal(
+        (await githubModule.findPreviousFile('Kangaroos', NEW_FILE))?.path,
+        OLD_FILE
+      );
+      assert.equal(
+        await githubModule.findPreviousFile('Kangaroos', OLD_FILE),
+        null
+      );
+    });
+  });
+
+  describe('findListFileVersion', () => {
+    test('finds a file by its timestamp, as written or as an ISO date', async () => {
+      for (const version of [
+        '2024-01-01T00-00-00.000Z',
+        '2024-01-01T00:00:00.000Z',
+      ]) {
+        const found = await githubModule.findListFileVersion(
+          'Kangaroos',
+          version
+        );
+        assert.equal(found?.file.path, OLD_FILE);
+        assert.equal(found?.ref, 'HEAD');
+      }
+    });
+
+    test('does not match part of a timestamp', async () => {
+      assert.equal(
+        await githubModule.findListFileVersion('Kangaroos', '2024-01-01'),
+        null
+      );
+    });
+
+    test('finds a file by a blob SHA prefix', async () => {
+      const [, oldFile] = await githubModule.listFilesForList('Kangaroos');
+
+      const found = await githubModule.findListFileVersion(
+        'Kangaroos',
+        oldFile.sha.slice(0, 7)
+      );
+
+      assert.equal(found?.file.path, OLD_FILE);
+    });
+
+    test('rejects a version matching more than one file', async () => {
+      github.setFile(OLD_FILE.replace('.csv', '.csv.gz'), gzipSync(CSV));
+
+      await assert.rejects(
+        githubModule.findListFileVersion(
+          'Kangaroos',
+          '2024-01-01T00:00:00.000Z'
+        ),
+        (error) => {
+          assert.ok(error instanceof githubModule.AmbiguousVersionError);
+          assert.equal(error.files.length, 2);
+          return true;
+        }
+      );
+    });
+
+    test('treats an unknown SHA as a commit, loading its latest file', async () => {
+      const commit = 'abcdef1234567';
+
+      const found = await githubModule.findListFileVersion('Kangaroos', commit);
+
+      assert.equal(found?.file.path, NEW_FILE);
+      assert.equal(found?.ref, commit);
+      assert.ok(
+        github.requests.some((request) => request.endsWith(`?ref=${commit}`))
+      );
+    });
+  });
+
+  describe('file paths', () => {
+    test('picks the newest file of each list from a push', () => {
+      const latest = githubModule.selectLatestFilesByList([
+        OLD_FILE,
+        NEW_FILE,
+        'imported_GoogleSheets/Wombats/Wombats_2024-01-01.csv.gz',
+        'imported_GoogleSheets/Wombats/README.md',
+        'drs.json',
+      ]);
+
+      assert.deepEqual(Object.fromEntries(latest), {
+        Kangaroos: NEW_FILE,
+        Wombats: 'imported_GoogleSheets/Wombats/Wombats_2024-01-01.csv.gz',
+      });
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { inflateRawSync } from 'zlib';
+
+import { AlaListsClientConfig } from '../ala.js';
+import { ListsEnvironment } from '../config.js';
+
+export interface MockSpeciesList {
+  id: string;
+  dataResourceUid: string;
+  title: string;
+  version: number;
+  rowCount: number;
+  [key: string]: unknown;
+}
+
+interface MockIngestion {
+  csv: string;
+  checks: number;
+}
+
+// Helper function to read the first file in a ZIP archive, enough for the
+// single CSV the sync service uploads
+export function readZipEntry(zip: Buffer): string {
+  const endOfDirectory = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOfDirectory < 0) {
+    throw new Error('Not a ZIP file');
+  }
+
+  const entry = zip.readUInt32LE(endOfDirectory + 16);
+  const method = zip.readUInt16LE(entry + 10);
+  const compressedSize = zip.readUInt32LE(entry + 20);
+  const localHeader = zip.readUInt32LE(entry + 42);
+
+  const dataStart =
+    localHeader +
+    30 +
+    zip.readUInt16LE(localHeader + 26) +
+    zip.readUInt16LE(localHeader + 28);
+  const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+  return (method === 8 ? inflateRawSync(data) : data).toString('utf8');
+}
+
+/**
+ * A local stand-in for the ALA Lists API and its OAuth2 token endpoint,
+ * holding lists in memory so tests can exercise the client end to end
+ */
+export class MockAlaServer {
+  // Lists by dataResourceUid
+  lists = new Map<string, MockSpeciesList>();
+  // CSV content of each list's ingested rows, by species list ID
+  content = new Map<string, string>();
+  // Method and path of every API request, excluding token requests
+  requests: string[] = [];
+  // Status codes to fail the next API requests with, in order
+  failures: number[] = [];
+  // Progress checks before an ingestion completes, Infinity to never finish
+  ingestionChecks = 0;
+  // Scientific names ALA's name matching can't resolve to a taxon
+  unmatchedNames = new Set<string>();
+  // Name matching results by scientific name, names not listed match exactly
+  nameMatches = new Map<string, Record<string, string>>();
+  tokensIssued = 0;
+
+  private uploads = new Map<string, string>();
+  private ingestions = new Map<string, MockIngestion>();
+  private validTokens = new Set<string>();
+  private server = http.createServer((req, res) => {
+    this.handle(req, res).catch((error) => {
+      res.statusCode = 500;
+      res.end(String(error));
+    });
+  });
+
+  get url(): string {
+    return `http://localhost:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  // Helper function to add a list to the mock
+  addList(
+    dataResourceUid: string,
+    details: Partial<MockSpeciesList> = {}
+  ): MockSpeciesList {
+    const list = {
+      id: `list-${this.lists.size + 1}`,
+      dataResourceUid,
+      title: `List ${dataResourceUid}`,
+      version: 1,
+      rowCount: 0,
+      ...details,
+    };
+    this.lists.set(dataResourceUid, list);
+    return list;
+  }
+
+  // Helper function to expire every token issued so far, as if ALA had
+  // rotated its keys
+  revokeTokens(): void {
+    this.validTokens.clear();
+  }
+
+  // Helper function to build client settings pointing at the mock
+  clientConfig(
+    overrides: Partial<AlaListsClientConfig> = {}
+  ): AlaListsClientConfig {
+    return {
+      name: 'test',
+      apiEndpoint: this.url,
+      authUrl: `${this.url}/oauth2/token`,
+      scopes: 'ala/internal',
+      clientId: 'client',
+      clientSecret: 'secret',
+      maxRetries: 3,
+      retryBaseDelay: 1,
+      circuitFailureThreshold: 5,
+      circuitCooldown: 60000,
+      progressInterval: 1,
+      ...overrides,
+    };
+  }
+
+  // Helper function to build an environment pointing at the mock
+  environment(): ListsEnvironment {
+    return {
+      ...this.clientConfig(),
+      uiBaseUrl: this.url,
+      requiresApproval: false,
+      syncOnPush: true,
+    };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = Buffer.concat(chunks);
+
+    const send = (status: number, data?: unknown) => {
+      res.statusCode = status;
+      if (typeof data === 'string') {
+        res.setHeader('content-type', 'text/csv');
+        res.end(data);
+      } else {
+        res.setHeader('content-type', 'application/json');
+        res.end(data === undefined ? '' : JSON.stringify(data));
+      }
+    };
+
+    if (req.url === '/oauth2/token') {
+      const token = `token-${++this.tokensIssued}`;
+      this.validTokens.add(token);
+      return send(200, {
+        access_token: token,
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'ala/internal',
+      });
+    }
+
+    this.requests.push(`${req.method} ${req.url}`);
+
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    if (!token || !this.validTokens.has(token)) {
+      return send(401, { error: 'Unauthorized' });
+    }
+
+    const failure = this.failures.shift();
+    if (failure) {
+      res.setHeader('retry-after', '0');
+      return send(failure, { error: 'Simulated failure' });
+    }
+
+    const url = new URL(req.url || '/', this.url);
+    const [, version, resource, id, action] = url.pathname.split('/');
+    if (version !== 'v2') return send(404);
+
+    // Form bodies are parsed the same way fetch builds them
+    const readForm = () =>
+      new Response(body, {
+        headers: { 'content-type': req.headers['content-type'] || '' },
+      }).formData();
+
+    if (resource === 'speciesList') {
+      const list = Array.from(this.lists.values()).find(
+        (list) => list.dataResourceUid === id || list.id === id
+      );
+      if (!list) return send(404, { error: 'List not found' });
+
+      if (req.method === 'PUT') {
+        Object.assign(list, JSON.parse(body.toString()), { id: list.id });
+      }
+      return send(200, list);
+    }
+
+    if (resource === 'upload' && req.method === 'POST') {
+      const file = (await readForm()).get('file');
+      if (!(file instanceof Blob)) return send(400, { error: 'No file' });
+
+      const csv = readZipEntry(Buffer.from(await file.arrayBuffer()));
+      const [header, ...rows] = csv.trim().split(/\r?\n/);
+      const fields = header.split(',');
+      const nameIndex = fields.indexOf('scientificName');
+      const missingNames =
+        nameIndex < 0 || rows.some((row) => !row.split(',')[nameIndex]);
+
+      const localFile = `upload-${this.uploads.size + 1}.csv`;
+      this.uploads.set(localFile, csv);
+      return send(200, {
+        localFile,
+        rowCount: rows.length,
+        fieldList: fields,
+        originalFieldNames: fields,
+        validationErrors: missingNames
+          ? ['SOME_RECORDS_WITHOUT_SCIENTIFIC_NAME']
+          : null,
+      });
+    }
+
+    if (resource === 'ingest' && action === 'progress') {
+      const ingestion = this.ingestions.get(id);
+      if (!ingestion) return send(404, { error: 'No ingestion' });
+
+      ingestion.checks++;
+      const completed = ingestion.checks > this.ingestionChecks;
+      const rowCount = ingestion.csv.trim().split(/\r?\n/).length - 1;
+      if (completed) {
+        const list = Array.from(this.lists.values()).find(
+          (list) => list.id === id
+        )!;
+        list.rowCount = rowCount;
+        list.version++;
+        this.content.set(id, ingestion.csv);
+        this.ingestions.delete(id);
+      }
+
+      return send(200, {
+        id: `progress-${id}`,
+        speciesListID: id,
+        completed,
+        rowCount,
+        mongoTotal: completed ? rowCount : 0,
+        elasticTotal: completed ? rowCount : 0,
+        started: Date.now(),
+      });
+    }
+
+    if (resource === 'ingest' && req.method === 'POST') {
+      const localFile = (await readForm()).get('file');
+      const csv = typeof localFile === 'string' && this.uploads.get(localFile);
+      if (!csv) return send(400, { error: 'Unknown file' });
+
+      this.ingestions.set(id, { csv, checks: 0 });
+      return send(200, {});
+    }
+
+    if (resource === 'speciesListItems') {
+      const csv = this.content.get(id);
+      if (csv === undefined) return send(404, { error: 'List not found' });
+
+      const [header, ...rows] = csv.trim().split(/\r?\n/);
+      const nameIndex = header.split(',').indexOf('scientificName');
+      const page = Number(url.searchParams.get('page')) || 1;
+      const pageSize = Number(url.searchParams.get('pageSize')) || 10;
+
+      return send(
+        200,
+        rows.slice((page - 1) * pageSize, page * pageSize).map((row, index) => {
+          const scientificName = row.split(',')[nameIndex];
+          return {
+            id: `item-${(page - 1) * pageSize + index + 1}`,
+            scientificName,
+            classification: this.unmatchedNames.has(scientificName)
+              ? { success: false }
+              : {
+                  scientificName,
+                  taxonConceptID: `https://id.biodiversity.org.au/node/${scientificName}`,
+                  rank: 'species',
+                  matchType: 'exactMatch',
+                  ...this.nameMatches.get(scientificName),
+                },
+          };
+        })
+      );
+    }
+
+    if (resource === 'download') {
+      const csv = this.content.get(id);
+      return csv === undefined ? send(404) : send(200, csv);
+    }
+
+    send(404);
+  }
+}
@@ -0,0 +1,193 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface PushChanges {
+  added?: string[];
+  modified?: string[];
+  removed?: string[];
+}
+
+// Helper function to compute a file's git blob SHA
+function blobSha(content: Buffer): string {
+  return createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * A local stand-in for the GitHub contents, commits and blob APIs, serving the
+ * files of a single repository from memory
+ */
+export class MockGitHubServer {
+  // File contents by repository path
+  files = new Map<string, Buffer>();
+  // Method and path of every request
+  requests: string[] = [];
+  // Status codes to fail the next requests with, in order. A 403 is sent as
+  // an exhausted rate limit
+  failures: number[] = [];
+  // Files larger than this are left for the blob API, as GitHub does above 1 MB
+  maxInlineSize = 1024 * 1024;
+  // Commit SHA that branch names and HEAD resolve to
+  headSha = 'c0ffee'.padEnd(40, '0');
+
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get url(): string {
+    return `http://localhost:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  setFile(path: string, content: string | Buffer): void {
+    this.files.set(path, Buffer.from(content));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    this.requests.push(`${req.method} ${req.url}`);
+    res.setHeader('content-type', 'application/json');
+
+    const failure = this.failures.shift();
+    if (failure) {
+      if (failure === 403) res.setHeader('x-ratelimit-remaining', '0');
+      res.statusCode = failure;
+      res.end(JSON.stringify({ message: 'Simulated failure' }));
+      return;
+    }
+
+    const url = new URL(req.url || '/', this.url);
+
+    // Commits are resolved to a SHA, as the SHA media type answers
+    if (/^\/repos\/[^/]+\/[^/]+\/commits\/[^/]+$/.test(url.pathname)) {
+      res.setHeader('content-type', 'text/plain');
+      res.end(this.headSha);
+      return;
+    }
+
+    // Blobs are served raw, looked up by their SHA
+    const blobMatch = url.pathname.match(
+      /^\/repos\/[^/]+\/[^/]+\/git\/blobs\/([0-9a-f]+)$/
+    );
+    if (blobMatch) {
+      const blob = Array.from(this.files.values()).find(
+        (content) => blobSha(content) === blobMatch[1]
+      );
+      if (!blob) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+      res.setHeader('content-type', 'application/octet-stream');
+      res.end(blob);
+      return;
+    }
+
+    const match = url.pathname.match(/^\/repos\/[^/]+\/[^/]+\/contents\/(.+)$/);
+    if (!match) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    const path = decodeURIComponent(match[1]);
+    const file = this.files.get(path);
+    if (file) {
+      const inline = file.length <= this.maxInlineSize;
+      res.end(
+        JSON.stringify({
+          type: 'file',
+          name: path.split('/').pop(),
+          path,
+          sha: blobSha(file),
+          size: file.length,
+          encoding: inline ? 'base64' : 'none',
+          content: inline ? file.toString('base64') : '',
+        })
+      );
+      return;
+    }
+
+    // Folders are listed from the paths of the files inside them
+    const entries = new Map<string, object>();
+    for (const [filePath, content] of this.files) {
+      if (!filePath.startsWith(`${path}/`)) continue;
+
+      const [name, ...rest] = filePath.slice(path.length + 1).split('/');
+      entries.set(name, {
+        type: rest.length > 0 ? 'dir' : 'file',
+        name,
+        path: `${path}/${name}`,
+        sha: rest.length > 0 ? blobSha(Buffer.from(name)) : blobSha(content),
+        size: rest.length > 0 ? 0 : content.length,
+      });
+    }
+
+    if (entries.size === 0) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+    res.end(JSON.stringify(Array.from(entries.values())));
+  }
+}
+
+/**
+ * Builds a GitHub push event for changes on a branch of a repository
+ */
+export function createPushPayload(
+  repository: string,
+  changes: PushChanges,
+  branch: string = 'main'
+) {
+  const sha = randomUUID().replace(/-/g, '');
+  return {
+    ref: `refs/heads/${branch}`,
+    before: '0'.repeat(40),
+    after: sha,
+    repository: { full_name: repository },
+    pusher: { name: 'octocat', email: 'octocat@example.com' },
+    head_commit: { id: sha },
+    commits: [
+      {
+        id: sha,
+        added: changes.added || [],
+        modified: changes.modified || [],
+        removed: changes.removed || [],
+      },
+    ],
+  };
+}
+
+/**
+ * Sends a webhook event to the app, signed with the webhook secret the way
+ * GitHub signs deliveries
+ */
+export async function sendWebhook(
+  appUrl: string,
+  secret: string,
+  event: string,
+  payload: unknown,
+  deliveryId: string = randomUUID()
+): Promise<Response> {
+  const body = JSON.stringify(payload);
+  const signature = createHmac('sha256', secret).update(body).digest('hex');
+
+  return fetch(`${appUrl}/webhook`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-github-event': event,
+      'x-github-delivery': deliveryId,
+      'x-hub-signature-256': `sha256=${signature}`,
+    },
+    body,
+  });
+}
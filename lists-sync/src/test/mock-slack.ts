@@ -0,0 +1,213 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface SlackCall {
+  method: string;
+  args: Record<string, any>;
+}
+
+// Helper function to parse a Web API request body, which the Slack client
+// sends form encoded with objects as JSON strings
+function parseArgs(body: string, contentType: string): Record<string, any> {
+  if (contentType.includes('application/json')) {
+    return body ? JSON.parse(body) : {};
+  }
+
+  const args: Record<string, any> = {};
+  for (const [key, value] of new URLSearchParams(body)) {
+    try {
+      args[key] = /^[[{]/.test(value) ? JSON.parse(value) : value;
+    } catch {
+      args[key] = value;
+    }
+  }
+  return args;
+}
+
+/**
+ * A local stand-in for the Slack Web API, recording the messages and files
+ * the app sends
+ */
+export class MockSlackServer {
+  calls: SlackCall[] = [];
+  // Members of each user group, by user group ID
+  userGroups = new Map<string, string[]>();
+
+  private nextTs = 1;
+  private server = http.createServer((req, res) => {
+    this.handle(req, res).catch((error) => {
+      res.statusCode = 500;
+      res.end(String(error));
+    });
+  });
+
+  get url(): string {
+    return `http://localhost:${
+      (this.server.address() as AddressInfo).port
+    }/api/`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  // Helper function to get the calls made to a Web API method
+  callsTo(method: string): SlackCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  // Helper function to get the text of the messages posted or updated,
+  // including the text inside their blocks
+  messageTexts(): string[] {
+    return this.calls
+      .filter(({ method }) => method.startsWith('chat.'))
+      .map(({ args }) => JSON.stringify(args.blocks ?? args.text ?? ''));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = Buffer.concat(chunks).toString();
+
+    const method = (req.url || '').replace(/^\/api\//, '').split('?')[0];
+    res.setHeader('content-type', 'application/json');
+
+    // Files are uploaded to the URL handed out by getUploadURLExternal
+    if (method.startsWith('upload/')) {
+      res.end('OK');
+      return;
+    }
+
+    const args = parseArgs(body, req.headers['content-type'] || '');
+    this.calls.push({ method, args });
+
+    const respond = (data: object) =>
+      res.end(JSON.stringify({ ok: true, ...data }));
+
+    switch (method) {
+      case 'auth.test':
+        return respond({ user_id: 'UBOT', bot_id: 'BBOT', team_id: 'T1' });
+      case 'chat.postMessage':
+        return respond({
+          channel: args.channel,
+          ts: `${Date.now()}.${String(this.nextTs++).padStart(6, '0')}`,
+        });
+      case 'chat.update':
+        return respond({ channel: args.channel, ts: args.ts });
+      case 'files.getUploadURLExternal':
+        return respond({
+          upload_url: `${this.url}upload/F${this.nextTs}`,
+          file_id: `F${this.nextTs++}`,
+        });
+      case 'files.completeUploadExternal':
+        return respond({ files: args.files });
+      case 'usergroups.users.list':
+        return respond({ users: this.userGroups.get(args.usergroup) ?? [] });
+      default:
+        return respond({});
+    }
+  }
+}
+
+/**
+ * Sends a button press to the app's Slack events endpoint
+ */
+export async function sendBlockAction(
+  appUrl: string,
+  signingSecret: string,
+  actionId: string,
+  value: string,
+  {
+    userId = 'U0CURATOR',
+    responseUrl = `${appUrl}/slack/response`,
+  }: { userId?: string; responseUrl?: string } = {}
+): Promise<Response> {
+  const payload = {
+    type: 'block_actions',
+    api_app_id: 'A0LISTS',
+    token: 'verification-token',
+    trigger_id: 'trigger',
+    team: { id: 'T1', domain: 'arga' },
+    user: { id: userId, team_id: 'T1' },
+    channel: { id: 'C0LISTS' },
+    container: { type: 'message' },
+    response_url: responseUrl,
+    actions: [
+      {
+        type: 'button',
+        action_id: actionId,
+        block_id: 'actions',
+        value,
+        action_ts: `${Date.now() / 1000}`,
+      },
+    ],
+  };
+  return postSignedEvent(
+    appUrl,
+    signingSecret,
+    new URLSearchParams({ payload: JSON.stringify(payload) })
+  );
+}
+
+/**
+ * Sends a slash command to the app's Slack events endpoint, as typed in the
+ * lists channel
+ */
+export async function sendSlashCommand(
+  appUrl: string,
+  signingSecret: string,
+  command: string,
+  text: string = '',
+  {
+    userId = 'U0CURATOR',
+    channelId = 'C0LISTS',
+    responseUrl = `${appUrl}/slack/response`,
+  }: { userId?: string; channelId?: string; responseUrl?: string } = {}
+): Promise<Response> {
+  return postSignedEvent(
+    appUrl,
+    signingSecret,
+    new URLSearchParams({
+      token: 'verification-token',
+      team_id: 'T1',
+      team_domain: 'arga',
+      channel_id: channelId,
+      channel_name: 'lists',
+      user_id: userId,
+      user_name: 'curator',
+      command,
+      text,
+      api_app_id: 'A0LISTS',
+      response_url: responseUrl,
+      trigger_id: 'trigger',
+    })
+  );
+}
+
+// Helper function to post a form to the app's Slack events endpoint, signed
+// with the signing secret the way Slack signs requests
+function postSignedEvent(
+  appUrl: string,
+  signingSecret: string,
+  body: URLSearchParams
+): Promise<Response> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${body}`)
+    .digest('hex');
+
+  return fetch(`${appUrl}/slack/events`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-www-form-urlencoded',
+      'x-slack-request-timestamp': String(timestamp),
+      'x-slack-signature': `v0=${signature}`,
+    },
+    body,
+  });
+}
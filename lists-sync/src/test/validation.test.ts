@@ -0,0 +1,188 @@
+import assert from 'assert/strict';
+import { Readable } from 'stream';
+import { describe, test } from 'node:test';
+
+import { getListSchema } from '../schemas.js';
+import {
+  ValidationReport,
+  formatValidationReport,
+  parseCsv,
+  readCsvRecords,
+  validateCsv,
+  validateCsvStream,
+} from '../validation.js';
+
+// Helper function to list the codes of a report's issues in order
+const codes = (report: ValidationReport) =>
+  report.issues.map((issue) => issue.code);
+
+describe('parseCsv', () => {
+  test('parses quoted fields with commas, quotes and line breaks', () => {
+    const { records, issues } = parseCsv(
+      'a,b\r\n"Macropus, rufus","Red ""big""\nkangaroo"\n'
+    );
+
+    assert.deepEqual(records, [
+      ['a', 'b'],
+      ['Macropus, rufus', 'Red "big"\nkangaroo'],
+    ]);
+    assert.deepEqual(issues, []);
+  });
+
+  test('skips a UTF-8 byte order mark', () => {
+    const { records } = parseCsv('\uFEFFscientificName\nMacropus rufus');
+
+    assert.deepEqual(records, [['scientificName'], ['Macropus rufus']]);
+  });
+
+  test('reports stray and unclosed quotes with their position', () => {
+    const { issues } = parseCsv('a,b\nx"y,"z"w\n"open');
+
+    assert.deepEqual(
+      issues.map(({ code, row, column }) => ({ code, row, column })),
+      [
+        { code: 'BAD_QUOTING', row: 2, column: 1 },
+        { code: 'BAD_QUOTING', row: 2, column: 2 },
+        { code: 'BAD_QUOTING', row: 3, column: 1 },
+      ]
+    );
+  });
+
+  test('reads the same records from a stream split mid-character', async () => {
+    const bytes = Buffer.from('scientificName,note\nAcacia,"Wattle, é"\n');
+    const split = bytes.indexOf(Buffer.from('é')) + 1;
+    const records: string[][] = [];
+    for await (const record of readCsvRecords(
+      Readable.from([bytes.subarray(0, split), bytes.subarray(split)])
+    )) {
+      records.push(record);
+    }
+
+    assert.deepEqual(records, [
+      ['scientificName', 'note'],
+      ['Acacia', 'Wattle, é'],
+    ]);
+  });
+});
+
+describe('validateCsv', () => {
+  test('passes a well formed file', () => {
+    const report = validateCsv(
+      'scientificName,vernacularName\nMacropus rufus,Red kangaroo\n\n'
+    );
+
+    assert.equal(report.valid, true);
+    assert.equal(report.rowCount, 2);
+    assert.deepEqual(report.columns, ['scientificName', 'vernacularName']);
+    assert.deepEqual(report.issues, []);
+  });
+
+  test('rejects an empty file', () => {
+    const report = validateCsv('');
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(codes(report), ['EMPTY_FILE']);
+  });
+
+  test('requires a scientificName column', () => {
+    const report = validateCsv('vernacularName\nRed kangaroo\n');
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(codes(report), ['MISSING_COLUMN']);
+  });
+
+  test('reports ragged rows, empty names and bad UTF-8 as errors', () => {
+    const report = validateCsv(
+      'scientificName,vernacularName\nMacropus rufus\n,Unknown\nAcacia\uFFFD,Wattle\n'
+    );
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(
+      report.issues.map(({ code, row, column }) => ({ code, row, column })),
+      [
+        { code: 'RAGGED_ROW', row: 2, column: undefined },
+        { code: 'EMPTY_SCIENTIFIC_NAME', row: 3, column: 1 },
+        { code: 'INVALID_UTF8', row: 4, column: 1 },
+      ]
+    );
+  });
+
+  test('only warns about duplicate rows and column names', () => {
+    const report = validateCsv(
+      'scientificName,note,note,\nAcacia,a,b,\nAcacia,a,b,\n'
+    );
+
+    assert.equal(report.valid, true);
+    assert.deepEqual(codes(report), [
+      'DUPLICATE_COLUMN',
+      'EMPTY_COLUMN_NAME',
+      'DUPLICATE_ROW',
+    ]);
+    assert.equal(report.issues[2].message, 'Duplicate of row 2');
+  });
+
+  test('checks required columns and values from the list schema', () => {
+    const schema = getListSchema('threatened_species');
+
+    const missing = validateCsv('scientificName,EPBC: Endangered\n', schema);
+    assert.deepEqual(codes(missing), ['MISSING_COLUMN']);
+    assert.match(missing.issues[0].message, /IUCN: \*/);
+
+    const report = validateCsv(
+      'scientificName,EPBC: Endangered,IUCN: Vulnerable\nAcacia,true,\nBanksia,yes,false\n',
+      schema
+    );
+    assert.equal(report.valid, false);
+    assert.deepEqual(
+      report.issues.map(({ code, row, column }) => ({ code, row, column })),
+      [{ code: 'INVALID_VALUE', row: 3, column: 2 }]
+    );
+  });
+
+  test('keeps only the first issues of each code but counts them all', () => {
+    const rows = Array.from({ length: 150 }, (_, i) => `,${i}\n`).join('');
+    const report = validateCsv(`scientificName,note\n${rows}`);
+
+    assert.equal(report.rowCount, 150);
+    assert.equal(report.issueCounts.EMPTY_SCIENTIFIC_NAME, 150);
+    assert.equal(codes(report).length, 100);
+    assert.equal(report.issues[99].row, 101);
+  });
+
+  test('gives the same report for a stream as for a string', async () => {
+    const csv = 'scientificName,note\nAcacia,"a\nb"\n,c\nAcacia,"a\nb"\n';
+
+    assert.deepEqual(
+      await validateCsvStream(Readable.from([Buffer.from(csv)])),
+      validateCsv(csv)
+    );
+  });
+});
+
+describe('formatValidationReport', () => {
+  test('totals issues beyond those kept and lists errors first', () => {
+    const rows = Array.from({ length: 150 }, (_, i) =>
+      i === 0 ? 'Acacia,\n' : `,${i}\n`
+    ).join('');
+    const lines = formatValidationReport(
+      validateCsv(`scientificName,note,note\n${rows}`),
+      2
+    );
+
+    assert.equal(
+      lines[0],
+      '🔎  Validation failed: 299 error(s), 1 warning(s) in 150 rows'
+    );
+    assert.deepEqual(lines.slice(1, 4), [
+      '❌  *RAGGED_ROW* (150)',
+      '• row 2: Expected 3 columns but found 2',
+      '• row 3: Expected 3 columns but found 2',
+    ]);
+    assert.ok(lines.includes('❌  *EMPTY_SCIENTIFIC_NAME* (149)'));
+    assert.ok(lines.includes('⚠️  *DUPLICATE_COLUMN* (1)'));
+    assert.ok(
+      lines.indexOf('⚠️  *DUPLICATE_COLUMN* (1)') >
+        lines.indexOf('❌  *EMPTY_SCIENTIFIC_NAME* (149)')
+    );
+  });
+});
@@ -0,0 +1,978 @@
+import assert from 'assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+
+import type { AuditEntry } from '../audit.js';
+import type { WebhookDelivery } from '../deliveries.js';
+import type { DriftCheckResult } from '../drift.js';
+import type { DryRunResult } from '../preview.js';
+import type { ServiceStatus } from '../status.js';
+import { MockAlaServer } from './mock-ala.js';
+import {
+  MockGitHubServer,
+  createPushPayload,
+  sendWebhook,
+} from './mock-github.js';
+import {
+  MockSlackServer,
+  sendBlockAction,
+  sendSlashCommand,
+} from './mock-slack.js';
+
+const REPOSITORY = 'ARGA-Genomes/lists';
+const WEBHOOK_SECRET = 'webhook-secret';
+const SIGNING_SECRET = 'signing-secret';
+const ADMIN_TOKEN = 'admin-token';
+const LIST_FOLDER = 'imported_GoogleSheets/Kangaroos';
+
+const OLD_FILE = `${LIST_FOLDER}/Kangaroos_2024-01-01T00:00:00.csv`;
+const NEW_FILE = `${LIST_FOLDER}/Kangaroos_2024-02-01T00:00:00.csv`;
+const NEWEST_FILE = `${LIST_FOLDER}/Kangaroos_2024-03-01T00:00:00.csv`;
+
+const OLD_CSV = 'scientificName,vernacularName\nMacropus rufus,Red kangaroo\n';
+const NEW_CSV =
+  'scientificName,vernacularName\nMacropus rufus,Red kangaroo\nMacropus giganteus,Eastern grey kangaroo\n';
+
+// A button or picker in a Slack message
+type SlackElement = { action_id?: string; value?: string };
+
+// Helper function to wait for something the app does in the background
+async function waitFor(
+  check: () => boolean,
+  description: string,
+  timeout: number = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('Webhook to reload flow', () => {
+  const github = new MockGitHubServer();
+  const slack = new MockSlackServer();
+  const ala = new MockAlaServer();
+
+  let dataDir: string;
+  let server: Server;
+  let appUrl: string;
+  let drainJobs: () => Promise<void>;
+
+  // Helper function to push changes to the main branch of the repository
+  const push = async (
+    changes: Parameters<typeof createPushPayload>[1],
+    branch?: string
+  ) => {
+    const response = await sendWebhook(
+      appUrl,
+      WEBHOOK_SECRET,
+      'push',
+      createPushPayload(REPOSITORY, changes, branch)
+    );
+    assert.equal(response.status, 200);
+  };
+
+  // Helper function to wait until a reload has been posted and finished
+  const waitForReload = () =>
+    waitFor(
+      () =>
+        slack
+          .messageTexts()
+          .some((text) => text.includes('List reload completed successfully')),
+      'the reload to complete'
+    );
+
+  // Helper function to push a new drs.json and wait for it to be applied
+  const updateDrs = async (config: object) => {
+    github.setFile('drs.json', JSON.stringify(config));
+    await push({ modified: ['drs.json'] });
+    await waitFor(
+      () =>
+        slack
+          .messageTexts()
+          .some((text) => text.includes('DRs configuration updated')),
+      'drs.json to be applied'
+    );
+    slack.calls = [];
+  };
+
+  before(async () => {
+    // The app logs every step, keep the test output readable
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+
+    await Promise.all([github.start(), slack.start(), ala.start()]);
+    dataDir = await mkdtemp(join(tmpdir(), 'lists-sync-'));
+
+    // Settings are read when the app is imported, so they go first
+    Object.assign(process.env, {
+      GITHUB_WEBHOOK_SECRET: WEBHOOK_SECRET,
+      GITHUB_REPO: REPOSITORY,
+      GITHUB_API_URL: github.url,
+      SLACK_BOT_TOKEN: 'xoxb-test',
+      SLACK_SIGNING_SECRET: SIGNING_SECRET,
+      SLACK_CHANNEL_ID: 'C0LISTS',
+      SLACK_API_URL: slack.url,
+      LISTS_ENVIRONMENTS: 'test,prod',
+      LISTS_TEST_API_ENDPOINT: ala.url,
+      LISTS_TEST_UI_URL: 'https://lists.test.ala.org.au',
+      // Production shares the mock ALA, with lists only promoted and approved
+      LISTS_PROD_API_ENDPOINT: ala.url,
+      LISTS_PROD_UI_URL: 'https://lists.ala.org.au',
+      LISTS_PROD_REQUIRE_APPROVAL: 'true',
+      LISTS_PROD_SYNC_ON_PUSH: 'false',
+      LISTS_AUTH_URL: `${ala.url}/oauth2/token`,
+      LISTS_AUTH_CLIENT_ID: 'client',
+      LISTS_AUTH_CLIENT_SECRET: 'secret',
+      ALA_RETRY_BASE_DELAY: '1',
+      ALA_PROGRESS_INTERVAL: '1',
+      ADMIN_API_TOKEN: ADMIN_TOKEN,
+      SLACK_ALLOW_RELOAD: 'U0CURATOR',
+      SLACK_ALLOW_ROLLBACK: 'S0CURATORS',
+      SLACK_ALLOW_PROMOTE: 'U0RELEASER',
+      DATA_DIR: dataDir,
+    });
+
+    github.setFile(
+      'drs.json',
+      JSON.stringify({ prod: {}, test: { Kangaroos: 'dr1' } })
+    );
+    github.setFile(OLD_FILE, OLD_CSV);
+
+    const { app, loadAppState } = await import('../app.js');
+    ({ drainJobs } = await import('../jobs.js'));
+    await loadAppState();
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    appUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await drainJobs();
+    await new Promise((resolve) => server.close(resolve));
+    await Promise.all([github.stop(), slack.stop(), ala.stop()]);
+    await rm(dataDir, { recursive: true, force: true });
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    ala.lists.clear();
+    ala.content.clear();
+    ala.requests = [];
+    ala.ingestionChecks = 0;
+    ala.nameMatches.clear();
+    slack.userGroups.clear();
+    ala.addList('dr1', { title: 'Kangaroos' });
+    slack.calls = [];
+    github.requests = [];
+    github.failures = [];
+  });
+
+  test('reloads the newest file pushed for a list', async () => {
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+
+    await push({ added: [NEW_FILE, NEWEST_FILE] });
+    await waitForReload();
+
+    // The newest file is loaded into the list's data resource
+    assert.ok(
+      github.requests.some((request) =>
+        request.includes(encodeURIComponent('Kangaroos_2024-03-01'))
+      )
+    );
+    assert.ok(ala.requests.includes('GET /v2/speciesList/dr1'));
+    assert.equal(ala.content.get(ala.lists.get('dr1')!.id), NEW_CSV);
+
+    // The reload is posted once and then updated as it progresses
+    const posted = slack.callsTo('chat.postMessage');
+    assert.equal(posted.length, 1);
+    assert.match(
+      JSON.stringify(posted[0].args.blocks),
+      /List push: Kangaroos \(test\)/
+    );
+    assert.ok(
+      slack
+        .messageTexts()
+        .some((text) => text.includes('Verified in ALA: version 2, 2 rows'))
+    );
+  });
+
+  test('reports names that did not match cleanly', async () => {
+    github.setFile(NEWEST_FILE, `${NEW_CSV}x Citroncirus webberi,Citrange\n`);
+    ala.nameMatches.set('Macropus giganteus', { matchType: 'fuzzyMatch' });
+    ala.nameMatches.set('x Citroncirus webberi', {
+      scientificName: 'Citroncirus',
+      rank: 'genus',
+    });
+
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+
+    assert.ok(
+      slack
+        .messageTexts()
+        .some((text) =>
+          text.includes(
+            'Name matching: 1 of 3 names matched cleanly, 0 unmatched, 1 fuzzy matched, 1 matched at a higher rank'
+          )
+        )
+    );
+    assert.ok(
+      slack
+        .callsTo('files.getUploadURLExternal')
+        .some(({ args }) => args.filename === 'Kangaroos_v2_name_matching.csv')
+    );
+
+    const report = await readFile(
+      join(dataDir, 'name-matching', 'test', 'Kangaroos', 'v2.csv'),
+      'utf8'
+    );
+    assert.match(report, /"FUZZY_MATCH","Macropus giganteus"/);
+    assert.match(
+      report,
+      /"HIGHER_RANK","x Citroncirus webberi","Citroncirus","genus"/
+    );
+  });
+
+  test('reports the status of each list', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+
+    // Only the admin token can force a refresh of the cached status
+    const denied = await fetch(`${appUrl}/status?refresh=true`);
+    assert.equal(denied.status, 401);
+
+    const response = await fetch(`${appUrl}/status?refresh=true`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    const { lists } = (await response.json()) as ServiceStatus;
+    assert.equal(lists.length, 1);
+    assert.equal(lists[0].dataResourceUid, 'dr1');
+    assert.equal(lists[0].alaVersion, 2);
+    assert.equal(lists[0].lastLoaded!.path, NEWEST_FILE);
+    assert.equal(lists[0].newestFile!.path, NEWEST_FILE);
+    assert.equal(lists[0].drift, false);
+    assert.equal(lists[0].recentJobs[0].state, 'completed');
+    assert.equal(typeof lists[0].recentJobs[0].durationMs, 'number');
+
+    // Git moving ahead of ALA shows up as drift
+    github.setFile(`${LIST_FOLDER}/Kangaroos_2024-04-01T00:00:00.csv`, NEW_CSV);
+    await fetch(`${appUrl}/status?refresh=true`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+
+    // Browsers open the cached page without a token
+    const page = await fetch(`${appUrl}/status`, {
+      headers: { accept: 'text/html' },
+    });
+    assert.match(page.headers.get('content-type')!, /text\/html/);
+    const html = await page.text();
+    assert.match(html, /<td>Kangaroos<\/td>/);
+    assert.match(html, /behind git/);
+    github.files.delete(`${LIST_FOLDER}/Kangaroos_2024-04-01T00:00:00.csv`);
+  });
+
+  test('answers list, status and history commands', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+    slack.calls = [];
+
+    // Helper function to run a command and get the reply it posted
+    const runCommand = async (command: string, text: string = '') => {
+      const response = await sendSlashCommand(
+        appUrl,
+        SIGNING_SECRET,
+        command,
+        text
+      );
+      assert.equal(response.status, 200);
+      await waitFor(
+        () => slack.callsTo('chat.postMessage').length > 0,
+        `${command} to reply`
+      );
+      const [reply] = slack.callsTo('chat.postMessage');
+      slack.calls = [];
+      return JSON.stringify(reply.args.blocks ?? reply.args.text);
+    };
+
+    const lists = await runCommand('/lists');
+    assert.match(lists, /Lists \(test\)/);
+    assert.match(lists, /\|dr1>/);
+    assert.match(
+      lists,
+      /Latest file: <[^|]+\|Kangaroos_2024-03-01T00:00:00.csv>/
+    );
+    assert.match(lists, /Last sync: ✅ completed/);
+
+    const status = await runCommand('/status', 'Kangaroos');
+    assert.match(status, /List status: Kangaroos \(test\)/);
+    assert.match(status, /completed/);
+    assert.match(status, /Triggered by a push of commit/);
+    assert.match(status, /ALA version 2, 2 rows/);
+
+    const history = await runCommand('/history', 'Kangaroos --limit=1');
+    assert.match(history, /List history: Kangaroos \(test\)/);
+    assert.equal(history.match(/Triggered by/g)!.length, 1);
+
+    const missing = await runCommand('/history', 'Wombats');
+    assert.match(missing, /List not found in configuration/);
+  });
+
+  test('only lets allowed users run commands in the lists channel', async () => {
+    // Denials are replied to through the command's response URL
+    const command = (
+      name: string,
+      text: string,
+      options: { userId?: string; channelId?: string } = {}
+    ) =>
+      sendSlashCommand(appUrl, SIGNING_SECRET, name, text, {
+        ...options,
+        responseUrl: `${slack.url}response`,
+      });
+    const waitForReply = async () => {
+      await waitFor(
+        () => slack.callsTo('response').length > 0,
+        'the ephemeral reply'
+      );
+      const [reply] = slack.callsTo('response');
+      slack.calls = [];
+      return reply.args;
+    };
+
+    await command('/reload', 'Kangaroos', { userId: 'U0VISITOR' });
+    const denied = await waitForReply();
+    assert.equal(denied.response_type, 'ephemeral');
+    assert.match(denied.text, /permission to reload lists/);
+
+    await command('/lists', '', { channelId: 'C0RANDOM' });
+    assert.match((await waitForReply()).text, /only be used in <#C0LISTS>/);
+
+    await command('/clean', '1700000000.000100');
+    assert.match((await waitForReply()).text, /delete bot messages/);
+    assert.equal(slack.callsTo('chat.delete').length, 0);
+
+    // Members of an allowed user group pass
+    slack.userGroups.set('S0CURATORS', ['U0CURATOR']);
+    await command('/rollback', 'Kangaroos');
+    await waitFor(
+      () => slack.callsTo('chat.postMessage').length > 0,
+      'the rollback picker'
+    );
+    assert.equal(slack.callsTo('response').length, 0);
+
+    const audit = (await readFile(join(dataDir, 'audit.jsonl'), 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .filter(({ action }) => action === 'command_denied');
+    assert.deepEqual(
+      audit.map(({ actor, command, outcome }) => [actor, command, outcome]),
+      [
+        ['U0VISITOR', '/reload Kangaroos', 'denied'],
+        ['U0CURATOR', '/lists', 'denied'],
+        ['U0CURATOR', '/clean 1700000000.000100', 'denied'],
+      ]
+    );
+  });
+
+  test('detects lists that drifted from git or ALA', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+
+    const checkDrift = async () => {
+      const response = await fetch(`${appUrl}/admin/drift/check`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+      const { lists } = (await response.json()) as DriftCheckResult;
+      return lists[0];
+    };
+
+    assert.equal((await checkDrift()).status, 'in_sync');
+
+    // A newer file with the same content is not drift
+    const copy = `${LIST_FOLDER}/Kangaroos_2024-04-01T00:00:00.csv`;
+    github.setFile(copy, NEW_CSV);
+    assert.equal((await checkDrift()).status, 'in_sync');
+
+    // Editing the list in ALA and pushing a file with new rows are both drift
+    slack.calls = [];
+    github.setFile(copy, `${NEW_CSV}Macropus robustus,Wallaroo\n`);
+    ala.lists.get('dr1')!.version++;
+
+    const drift = await checkDrift();
+    assert.equal(drift.status, 'drifted');
+    assert.deepEqual(
+      drift.reasons.map(({ reason }) => reason),
+      ['GIT_AHEAD', 'ALA_VERSION_CHANGED']
+    );
+    assert.equal(slack.callsTo('chat.postMessage').length, 1);
+    assert.match(slack.messageTexts()[0], /Drift check/);
+    assert.match(slack.messageTexts()[0], /1 drifted/);
+    github.files.delete(copy);
+  });
+
+  test('ignores pushes to other branches', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+
+    await push({ added: [NEWEST_FILE] }, 'feature');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.deepEqual(github.requests, []);
+    assert.deepEqual(ala.requests, []);
+    assert.deepEqual(slack.calls, []);
+  });
+
+  test('ignores files for lists missing from drs.json', async () => {
+    const file = 'imported_GoogleSheets/Wombats/Wombats_2024-03-01.csv';
+    github.setFile(file, NEW_CSV);
+
+    await push({ added: [file] });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.deepEqual(ala.requests, []);
+    assert.deepEqual(slack.calls, []);
+  });
+
+  test('rejects webhooks with an invalid signature', async () => {
+    const response = await sendWebhook(
+      appUrl,
+      'wrong-secret',
+      'push',
+      createPushPayload(REPOSITORY, { added: [NEWEST_FILE] })
+    );
+
+    assert.equal(response.status, 401);
+  });
+
+  test('reloads a list only once for a redelivered push', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    const payload = createPushPayload(REPOSITORY, { added: [NEWEST_FILE] });
+
+    await sendWebhook(appUrl, WEBHOOK_SECRET, 'push', payload, 'delivery-1');
+    await waitForReload();
+    await sendWebhook(appUrl, WEBHOOK_SECRET, 'push', payload, 'delivery-1');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.equal(slack.callsTo('chat.postMessage').length, 1);
+    assert.equal(
+      ala.requests.filter((request) => request === 'POST /v2/upload').length,
+      1
+    );
+  });
+
+  test('shows ingestion progress until the reload is cancelled', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    ala.ingestionChecks = Infinity;
+
+    await push({ added: [NEWEST_FILE] });
+    await waitFor(
+      () => slack.messageTexts().some((text) => text.includes('MongoDB')),
+      'the ingestion progress to be shown'
+    );
+
+    const update = slack
+      .callsTo('chat.update')
+      .find(({ args }) => JSON.stringify(args.blocks).includes('MongoDB'))!;
+    const progress = JSON.stringify(update.args.blocks);
+    assert.match(progress, /MongoDB 0\/2, Elasticsearch 0\/2/);
+    assert.match(progress, /estimating time left/);
+
+    const blocks: { elements?: SlackElement[] }[] = update.args.blocks;
+    const cancelButton = blocks
+      .flatMap((block) => block.elements ?? [])
+      .find((element) => element.action_id === 'cancel_reload')!;
+    const response = await sendBlockAction(
+      appUrl,
+      SIGNING_SECRET,
+      'cancel_reload',
+      cancelButton.value!
+    );
+    assert.equal(response.status, 200);
+
+    await waitFor(
+      () =>
+        slack
+          .messageTexts()
+          .some((text) => text.includes('Cancelled by <@U0CURATOR>')),
+      'the reload to be cancelled'
+    );
+    const progressChecks = ala.requests.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(ala.requests.length, progressChecks);
+    assert.ok(
+      !JSON.stringify(
+        slack.callsTo('chat.update').at(-1)!.args.blocks
+      ).includes('cancel_reload')
+    );
+  });
+
+  test('keeps an audit log of reloads and commands', async () => {
+    // Helper function to search the audit log through the admin API
+    const audit = async (query: string) => {
+      const response = await fetch(`${appUrl}/admin/audit?${query}`, {
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+      assert.equal(response.status, 200);
+      return (await response.json()) as AuditEntry[];
+    };
+
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+
+    const [reload] = await audit('action=reload&list=Kangaroos&limit=1');
+    assert.equal(reload.actorType, 'github');
+    assert.equal(reload.actor, 'octocat');
+    assert.equal(reload.trigger, 'push');
+    assert.equal(reload.dataResourceUid, 'dr1');
+    assert.equal(reload.path, NEWEST_FILE);
+    assert.equal(reload.versionBefore, 1);
+    assert.equal(reload.versionAfter, 2);
+    assert.equal(reload.outcome, 'completed');
+
+    await sendSlashCommand(appUrl, SIGNING_SECRET, '/status', 'Kangaroos');
+    await waitFor(
+      () => slack.callsTo('chat.postMessage').length > 1,
+      'the status reply'
+    );
+    const [command] = await audit('action=command&actor=U0CURATOR&limit=1');
+    assert.equal(command.command, '/status Kangaroos');
+    assert.equal(command.listName, 'Kangaroos');
+    assert.equal(command.outcome, 'completed');
+
+    // Entries can be limited to a time range and exported as CSV
+    assert.deepEqual(await audit(`since=${Date.now() + 1000}`), []);
+    const response = await fetch(`${appUrl}/admin/audit/export?action=reload`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    assert.match(response.headers.get('content-type')!, /text\/csv/);
+    const [header, ...rows] = (await response.text()).split('\n');
+    assert.match(header, /^"timestamp","action","actorType","actor"/);
+    assert.ok(rows.length >= 1);
+    assert.ok(rows.every((row) => row.includes('"reload"')));
+
+    const invalid = await fetch(`${appUrl}/admin/audit?since=yesterday`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    assert.equal(invalid.status, 400);
+  });
+
+  test('reports drs.json changes', async () => {
+    github.setFile(
+      'drs.json',
+      JSON.stringify({
+        prod: { Kangaroos: 'dr2' },
+        test: {
+          Kangaroos: { uid: 'dr1', displayName: 'Kangaroos' },
+          Wombats: { uid: 'dr3', enabled: false },
+        },
+      })
+    );
+
+    await push({ modified: ['drs.json'] });
+    await waitFor(
+      () => slack.callsTo('chat.postMessage').length > 0,
+      'the drs.json changes to be posted'
+    );
+
+    const [message] = slack.messageTexts();
+    assert.match(message, /DRs configuration updated/);
+    assert.match(message, /Added: `Kangaroos` → `dr2`/);
+    assert.match(message, /Updated: `Kangaroos` → displayName/);
+    assert.match(message, /Added: `Wombats` → `dr3` \(disabled\)/);
+
+    const response = await fetch(`${appUrl}/admin/audit?action=drs_change`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    const changes = (await response.json()) as AuditEntry[];
+    assert.deepEqual(
+      changes
+        .map(({ environment, listName, outcome, actor }) =>
+          [environment, listName, outcome, actor].join(' ')
+        )
+        .sort(),
+      [
+        'prod Kangaroos added octocat',
+        'test Kangaroos changed octocat',
+        'test Wombats added octocat',
+      ]
+    );
+  });
+
+  test('pins a rolled back list until it is reloaded', async () => {
+    const pushedFile = `${LIST_FOLDER}/Kangaroos_2024-04-01T00:00:00.csv`;
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+
+    // Helper function to run a command and wait for its reload to complete
+    const reloadWith = async (command: string, text: string) => {
+      slack.calls = [];
+      await sendSlashCommand(appUrl, SIGNING_SECRET, command, text);
+      await waitForReload();
+    };
+    const readPins = async () =>
+      JSON.parse(await readFile(join(dataDir, 'pins.json'), 'utf8'));
+
+    slack.userGroups.set('S0CURATORS', ['U0CURATOR']);
+    await reloadWith('/rollback', 'Kangaroos 2024-02-01T00:00:00');
+
+    const list = ala.lists.get('dr1')!;
+    assert.equal(ala.content.get(list.id), OLD_CSV);
+    assert.ok(
+      slack
+        .messageTexts()
+        .some((text) =>
+          text.includes('is rolling back to `Kangaroos_2024-02-01')
+        )
+    );
+    const pins = await readPins();
+    assert.equal(pins['test:Kangaroos'].path, NEW_FILE);
+    assert.equal(pins['test:Kangaroos'].pinnedBy, 'U0CURATOR');
+
+    // Pushes to a pinned list are reported but not loaded
+    slack.calls = [];
+    ala.requests = [];
+    github.setFile(pushedFile, NEW_CSV);
+    await push({ added: [pushedFile] });
+    await waitFor(
+      () =>
+        slack
+          .messageTexts()
+          .some((text) => text.includes('the new file was *not* loaded')),
+      'the pinned list to be reported'
+    );
+    assert.ok(!ala.requests.includes('POST /v2/upload'));
+
+    // Reloading the latest file lifts the pin once it has loaded
+    await reloadWith('/reload', 'Kangaroos');
+    assert.equal(ala.content.get(list.id), NEW_CSV);
+    assert.deepEqual(await readPins(), {});
+    github.files.delete(pushedFile);
+  });
+
+  test('rejects a rollback version matching more than one file', async () => {
+    const gzipped = NEW_FILE.replace('.csv', '.csv.gz');
+    github.setFile(gzipped, 'not read');
+    slack.userGroups.set('S0CURATORS', ['U0CURATOR']);
+
+    await sendSlashCommand(
+      appUrl,
+      SIGNING_SECRET,
+      '/rollback',
+      'Kangaroos 2024-02-01T00:00:00'
+    );
+    await waitFor(
+      () => slack.callsTo('chat.postMessage').length > 0,
+      'the rollback reply'
+    );
+
+    assert.match(slack.messageTexts()[0], /is an ambiguous version/);
+    assert.ok(!ala.requests.includes('POST /v2/upload'));
+    github.files.delete(gzipped);
+  });
+
+  test('reloads every list with a new file in one push', async () => {
+    const wallabyFile =
+      'imported_GoogleSheets/Wallabies/Wallabies_2024-03-01T00:00:00.csv';
+    const wallabyCsv = 'scientificName\nNotamacropus rufogriseus\n';
+    const wallabies = ala.addList('dr3', { title: 'Wallabies' });
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    github.setFile(wallabyFile, wallabyCsv);
+    // drs.json entries need the list's folder to exist
+    await updateDrs({ prod: {}, test: { Kangaroos: 'dr1', Wallabies: 'dr3' } });
+
+    await push({ added: [NEW_FILE, NEWEST_FILE, wallabyFile] });
+    const completed = (listName: string) =>
+      slack
+        .messageTexts()
+        .some(
+          (text) =>
+            text.includes(`${listName} (test)`) &&
+            text.includes('List reload completed successfully')
+        );
+    await waitFor(
+      () => completed('Kangaroos') && completed('Wallabies'),
+      'both lists to be reloaded'
+    );
+    assert.equal(ala.content.get(ala.lists.get('dr1')!.id), NEW_CSV);
+    assert.equal(ala.content.get(wallabies.id), wallabyCsv);
+
+    // One reload per list, each loading only the list's newest file
+    const posted = slack
+      .callsTo('chat.postMessage')
+      .map(({ args }) => JSON.stringify(args.blocks));
+    assert.equal(posted.length, 2);
+    assert.ok(posted.some((text) => text.includes('Kangaroos (test)')));
+    assert.ok(posted.some((text) => text.includes('Wallabies (test)')));
+    assert.equal(
+      ala.requests.filter((request) => request === 'POST /v2/upload').length,
+      2
+    );
+
+    await updateDrs({ prod: {}, test: { Kangaroos: 'dr1' } });
+    github.files.delete(wallabyFile);
+  });
+
+  test('reloads a list when its latest file is modified or removed', async () => {
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, OLD_CSV);
+    const list = ala.lists.get('dr1')!;
+
+    // Editing an older file changes nothing in ALA
+    await push({ modified: [NEW_FILE] });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.deepEqual(ala.requests, []);
+
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await push({ modified: [NEWEST_FILE] });
+    await waitForReload();
+    assert.equal(ala.content.get(list.id), NEW_CSV);
+    assert.match(
+      slack.messageTexts()[0],
+      /Modified file `Kangaroos_2024-03-01/
+    );
+
+    // Removing the newest file rolls ALA back to the one before it
+    slack.calls = [];
+    github.files.delete(NEWEST_FILE);
+    await push({ removed: [NEWEST_FILE] });
+    await waitForReload();
+    assert.equal(ala.content.get(list.id), OLD_CSV);
+    assert.match(slack.messageTexts()[0], /List rollback: Kangaroos \(test\)/);
+    assert.match(
+      slack.messageTexts()[0],
+      /Latest file `Kangaroos_2024-03-01T00:00:00.csv` was removed, rolling ALA back to `Kangaroos_2024-02-01/
+    );
+  });
+
+  test('reports a failed file lookup instead of a removed list', async () => {
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    github.failures = [403];
+
+    await push({ removed: [NEW_FILE] });
+    await waitFor(
+      () => slack.callsTo('chat.postMessage').length > 0,
+      'the lookup failure to be reported'
+    );
+
+    const [message] = slack.messageTexts();
+    assert.match(message, /could not be read from GitHub/);
+    assert.match(message, /rate limit/);
+    assert.doesNotMatch(message, /List removed/);
+    assert.deepEqual(ala.requests, []);
+  });
+
+  test('previews a reload without changing the live list', async () => {
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+
+    // Helper function to call the dry run endpoint for a list
+    const dryRun = (listName: string, query: string = '') =>
+      fetch(`${appUrl}/admin/lists/${listName}/dry-run${query}`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+
+    const response = await dryRun('Kangaroos');
+    assert.equal(response.status, 200);
+    const result = (await response.json()) as DryRunResult;
+    assert.equal(result.path, NEWEST_FILE);
+    assert.equal(result.validation.valid, true);
+    assert.equal(result.comparison!.previousFile.path, NEW_FILE);
+    assert.deepEqual(result.comparison!.diff.added, ['Macropus giganteus']);
+    assert.equal(result.upload!.rowCount, 2);
+
+    // The file is uploaded for ALA's view of it, but never ingested
+    assert.ok(ala.requests.includes('POST /v2/upload'));
+    assert.ok(!ala.requests.some((request) => request.includes('ingest')));
+    assert.equal(ala.lists.get('dr1')!.version, 1);
+
+    const older = await dryRun(
+      'Kangaroos',
+      `?path=${encodeURIComponent(NEW_FILE)}`
+    );
+    assert.equal(((await older.json()) as DryRunResult).path, NEW_FILE);
+
+    // Only files directly in the list's own folder can be previewed
+    for (const path of [
+      'imported_GoogleSheets/Wombats/Wombats_2024-03-01.csv',
+      `${LIST_FOLDER}/archive/Kangaroos_2024-03-01.csv`,
+      `${LIST_FOLDER}/../Wombats/Wombats_2024-03-01.csv`,
+      'drs.json',
+    ]) {
+      const denied = await dryRun(
+        'Kangaroos',
+        `?path=${encodeURIComponent(path)}`
+      );
+      assert.equal(denied.status, 400, path);
+    }
+
+    assert.equal((await dryRun('Wombats')).status, 404);
+    const unauthorised = await fetch(
+      `${appUrl}/admin/lists/Kangaroos/dry-run`,
+      { method: 'POST' }
+    );
+    assert.equal(unauthorised.status, 401);
+  });
+
+  test('promotes the file loaded in test to prod once approved', async () => {
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    await updateDrs({ prod: { Kangaroos: 'dr2' }, test: { Kangaroos: 'dr1' } });
+    const prodList = ala.addList('dr2', { title: 'Kangaroos' });
+
+    // Production isn't synced on push
+    await push({ added: [NEWEST_FILE] });
+    await waitForReload();
+    assert.equal(ala.content.get(prodList.id), undefined);
+
+    // Helper function to find the approval button of the latest message
+    // offering one
+    const findApproval = () =>
+      slack.calls
+        .flatMap(({ args }) =>
+          ((args.blocks ?? []) as { elements?: SlackElement[] }[]).flatMap(
+            (block) => block.elements ?? []
+          )
+        )
+        .filter((element) => element.action_id === 'approve_reload')
+        .at(-1);
+    // Helper function to press a button, returning any ephemeral reply
+    const press = async (actionId: string, value: string, userId: string) => {
+      slack.calls = [];
+      await sendBlockAction(appUrl, SIGNING_SECRET, actionId, value, {
+        userId,
+        responseUrl: `${slack.url}response`,
+      });
+    };
+
+    slack.calls = [];
+    await sendSlashCommand(appUrl, SIGNING_SECRET, '/promote', 'Kangaroos', {
+      userId: 'U0RELEASER',
+    });
+    await waitFor(() => findApproval() !== undefined, 'the approval button');
+    const jobId = findApproval()!.value!;
+    const request = slack.messageTexts().join('\n');
+    assert.match(request, /List promotion: Kangaroos \(test → prod\)/);
+    assert.match(request, /Promoting `Kangaroos_2024-03-01T00:00:00.csv`/);
+    assert.match(request, /Validation passed: 2 rows/);
+
+    // Reloading lists isn't enough to approve one
+    await press('approve_reload', jobId, 'U0CURATOR');
+    await waitFor(
+      () => slack.callsTo('response').length > 0,
+      'the approval to be denied'
+    );
+    assert.match(
+      slack.callsTo('response')[0].args.text,
+      /permission to promote lists or approve reloads/
+    );
+    assert.equal(ala.content.get(prodList.id), undefined);
+
+    await press('approve_reload', jobId, 'U0RELEASER');
+    await waitForReload();
+    assert.equal(ala.content.get(prodList.id), NEW_CSV);
+    assert.match(slack.messageTexts().join('\n'), /Approved by <@U0RELEASER>/);
+
+    // Other reloads into production need the same approval
+    slack.calls = [];
+    await sendSlashCommand(
+      appUrl,
+      SIGNING_SECRET,
+      '/reload',
+      'Kangaroos --env=prod'
+    );
+    await waitFor(() => findApproval() !== undefined, 'the approval button');
+    const reloadJobId = findApproval()!.value!;
+    await press('reject_reload', reloadJobId, 'U0CURATOR');
+    await waitFor(
+      () => slack.callsTo('response').length > 0,
+      'the rejection to be denied'
+    );
+    await press('reject_reload', reloadJobId, 'U0RELEASER');
+    await waitFor(
+      () => slack.messageTexts().some((text) => text.includes('Rejected by')),
+      'the reload to be rejected'
+    );
+
+    await updateDrs({ prod: {}, test: { Kangaroos: 'dr1' } });
+  });
+
+  test('replays a failed webhook delivery', async () => {
+    github.setFile(NEW_FILE, OLD_CSV);
+    github.setFile(NEWEST_FILE, NEW_CSV);
+    const deliveryId = 'delivery-replay';
+
+    // Helper function to call the admin API
+    const admin = (path: string, method: string = 'GET') =>
+      fetch(`${appUrl}/admin${path}`, {
+        method,
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+    const getDelivery = async () => {
+      const deliveries = (await (
+        await admin('/deliveries')
+      ).json()) as WebhookDelivery[];
+      return deliveries.find(({ id }) => id === deliveryId);
+    };
+    const waitForDelivery = async (status: WebhookDelivery['status']) => {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const delivery = await getDelivery();
+        if (delivery?.status === status) return delivery;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      throw new Error(`Timed out waiting for the delivery to be ${status}`);
+    };
+
+    // The file list can't be read, so the removal can't be processed
+    github.files.delete(NEWEST_FILE);
+    github.failures = [403];
+    await sendWebhook(
+      appUrl,
+      WEBHOOK_SECRET,
+      'push',
+      createPushPayload(REPOSITORY, { removed: [NEWEST_FILE] }),
+      deliveryId
+    );
+    const failed = await waitForDelivery('failed');
+    assert.match(failed.error!, /Kangaroos/);
+    assert.equal(failed.attempts, 1);
+    assert.deepEqual(ala.requests, []);
+
+    slack.calls = [];
+    const replay = await admin(`/deliveries/${deliveryId}/replay`, 'POST');
+    assert.equal(replay.status, 202);
+    await waitForReload();
+    assert.equal(ala.content.get(ala.lists.get('dr1')!.id), OLD_CSV);
+
+    const replayed = await waitForDelivery('processed');
+    assert.equal(replayed.attempts, 2);
+
+    assert.equal(
+      (await admin('/deliveries/unknown/replay', 'POST')).status,
+      404
+    );
+    const unauthorised = await fetch(
+      `${appUrl}/admin/deliveries/${deliveryId}/replay`,
+      { method: 'POST' }
+    );
+    assert.equal(unauthorised.status, 401);
+  });
+});
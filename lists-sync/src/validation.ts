@@ -0,0 +1,567 @@
+import { createHash } from 'crypto';
+import { Readable, Transform, TransformCallback, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+
+import { ListSchema, defaultSchema, matchesColumnRule } from './schemas.js';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+  // 1-based row in the file, the header is row 1
+  row?: number;
+  // 1-based column
+  column?: number;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  rowCount: number;
+  columns: string[];
+  // The first issues of each code, up to MAX_ISSUES_PER_CODE
+  issues: ValidationIssue[];
+  // Issues found per code, including those not kept
+  issueCounts: Record<string, number>;
+}
+
+// CSV content, either decoded or as a stream of bytes
+export type CsvSource = string | Readable;
+
+interface ParsedCsv {
+  records: string[][];
+  issues: ValidationIssue[];
+}
+
+// Characters that end a run of plain text in a CSV field
+const SPECIAL_CHARACTERS = /[",\r\n]/g;
+
+// Reported in place of bytes that were not valid UTF-8 when decoded
+const REPLACEMENT_CHARACTER = '\uFFFD';
+
+// Issues kept per code, the rest are only counted so a badly broken file
+// can't fill memory
+const MAX_ISSUES_PER_CODE = 100;
+
+/**
+ * Error thrown when a file fails local validation before upload
+ */
+export class ValidationError extends Error {
+  constructor(public readonly report: ValidationReport) {
+    super(formatValidationReport(report).join('\n'));
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Issues found in a file, keeping only the first few of each code
+ */
+class IssueLog {
+  readonly issues: ValidationIssue[] = [];
+  readonly counts = new Map<string, number>();
+
+  add(issue: ValidationIssue) {
+    const count = (this.counts.get(issue.code) || 0) + 1;
+    this.counts.set(issue.code, count);
+    if (count <= MAX_ISSUES_PER_CODE) this.issues.push(issue);
+  }
+}
+
+/**
+ * Incremental CSV parser (RFC 4180), fed text in chunks so large files are
+ * never held in memory, recording quoting problems with their position
+ */
+export class CsvParser {
+  readonly issues = new IssueLog();
+
+  private recordCount = 0;
+  private record: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private quotedField = false;
+  private quoteStartRow = 1;
+  // A quote inside a quoted field, either closing it or escaping the next quote
+  private pendingQuote = false;
+  // A carriage return that may be followed by a line feed
+  private pendingLineFeed = false;
+  private started = false;
+
+  constructor(private readonly onRecord: (record: string[]) => void) {}
+
+  private position() {
+    return { row: this.recordCount + 1, column: this.record.length + 1 };
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+    this.quotedField = false;
+  }
+
+  private endRecord() {
+    this.endField();
+    this.recordCount++;
+    this.onRecord(this.record);
+    this.record = [];
+  }
+
+  write(chunk: string) {
+    let i = 0;
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1; // Skip a UTF-8 BOM
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.pendingLineFeed) {
+        this.pendingLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (!this.pendingQuote) {
+          if (char === '"') {
+            this.pendingQuote = true;
+          } else {
+            // Take the rest of the quoted text in one slice
+            const end = chunk.indexOf('"', i);
+            const stop = end < 0 ? chunk.length : end;
+            this.field += chunk.slice(i, stop);
+            i = stop - 1;
+          }
+          continue;
+        }
+
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        // The quote closed the field, so handle this character unquoted
+        this.inQuotes = false;
+      }
+
+      if (char === ',') {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.pendingLineFeed = char === '\r';
+        this.endRecord();
+      } else if (char === '"') {
+        if (this.field === '' && !this.quotedField) {
+          this.inQuotes = true;
+          this.quotedField = true;
+          this.quoteStartRow = this.recordCount + 1;
+        } else {
+          this.issues.add({
+            severity: 'error',
+            code: 'BAD_QUOTING',
+            message: 'Unexpected quote inside a field',
+            ...this.position(),
+          });
+          this.field += char;
+        }
+      } else {
+        if (this.quotedField) {
+          this.issues.add({
+            severity: 'error',
+            code: 'BAD_QUOTING',
+            message: `Unexpected text after closing quote`,
+            ...this.position(),
+          });
+          // Only report the first stray character of the field
+          this.quotedField = false;
+        }
+
+        // Appending runs rather than single characters keeps fields from
+        // becoming long chains of one character strings in memory
+        SPECIAL_CHARACTERS.lastIndex = i;
+        const stop = SPECIAL_CHARACTERS.test(chunk)
+          ? SPECIAL_CHARACTERS.lastIndex - 1
+          : chunk.length;
+        this.field += chunk.slice(i, stop);
+        i = stop - 1;
+      }
+    }
+  }
+
+  end() {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+
+    if (this.inQuotes) {
+      this.issues.add({
+        severity: 'error',
+        code: 'BAD_QUOTING',
+        message: `Quoted field starting on row ${this.quoteStartRow} is never closed`,
+        ...this.position(),
+      });
+    }
+
+    // Keep the last record unless the file ends with a line break
+    if (this.field !== '' || this.record.length > 0 || this.quotedField) {
+      this.endRecord();
+    }
+  }
+}
+
+/**
+ * Parses CSV content (RFC 4180), recording quoting problems with their position
+ */
+export function parseCsv(content: string): ParsedCsv {
+  const records: string[][] = [];
+  const parser = new CsvParser((record) => records.push(record));
+  parser.write(content);
+  parser.end();
+
+  return { records, issues: parser.issues.issues };
+}
+
+// Helper function to turn CSV content into a stream of bytes
+export function toCsvStream(source: CsvSource): Readable {
+  return typeof source === 'string'
+    ? Readable.from([Buffer.from(source)])
+    : source;
+}
+
+/**
+ * Reads CSV records from a stream one at a time, decoding it as UTF-8
+ */
+export async function* readCsvRecords(
+  source: CsvSource
+): AsyncGenerator<string[]> {
+  const decoder = new StringDecoder('utf8');
+  let records: string[][] = [];
+  const parser = new CsvParser((record) => records.push(record));
+
+  for await (const chunk of toCsvStream(source)) {
+    parser.write(decoder.write(chunk));
+    yield* records;
+    records = [];
+  }
+
+  parser.write(decoder.end());
+  parser.end();
+  yield* records;
+}
+
+/**
+ * Checks records against a list schema as they are parsed
+ */
+class CsvValidator {
+  private readonly issues = new IssueLog();
+  private columns: string[] | null = null;
+  private rowCount = 0;
+  private scientificNameIndex = -1;
+  private restrictedColumns: {
+    index: number;
+    name: string;
+    values: Set<string>;
+  }[] = [];
+  // Row hashes rather than the rows themselves, to keep memory small
+  private readonly seenRows = new Map<string, number>();
+
+  constructor(private readonly schema: ListSchema) {}
+
+  private get hasHeader(): boolean {
+    return (
+      this.columns !== null &&
+      this.columns.length > 0 &&
+      !this.columns.every((name) => name === '')
+    );
+  }
+
+  addRecord(record: string[]) {
+    if (this.columns === null) {
+      this.columns = record.map((name) => name.trim());
+      if (this.hasHeader) this.checkHeader(this.columns);
+      return;
+    }
+
+    this.rowCount++;
+    if (this.hasHeader) this.checkRow(record, this.rowCount + 1);
+  }
+
+  private checkHeader(columns: string[]) {
+    const seenColumns = new Map<string, number>();
+    columns.forEach((name, index) => {
+      if (name === '') {
+        this.issues.add({
+          severity: 'warning',
+          code: 'EMPTY_COLUMN_NAME',
+          message: 'Column has no name',
+          row: 1,
+          column: index + 1,
+        });
+      } else if (seenColumns.has(name)) {
+        this.issues.add({
+          severity: 'warning',
+          code: 'DUPLICATE_COLUMN',
+          message: `Column \`${name}\` also appears in column ${seenColumns.get(
+            name
+          )}`,
+          row: 1,
+          column: index + 1,
+        });
+      } else {
+        seenColumns.set(name, index + 1);
+      }
+    });
+
+    for (const rule of this.schema.columns) {
+      if (
+        rule.required &&
+        !columns.some((name) => matchesColumnRule(name, rule))
+      ) {
+        this.issues.add({
+          severity: 'error',
+          code: 'MISSING_COLUMN',
+          message: `Required column \`${rule.name}\` is missing`,
+          row: 1,
+        });
+      }
+    }
+
+    // Column index of the scientific name and any value-restricted columns
+    this.scientificNameIndex = columns.indexOf('scientificName');
+    this.restrictedColumns = columns.flatMap((name, index) => {
+      const rule = this.schema.columns.find(
+        (rule) => rule.values && matchesColumnRule(name, rule)
+      );
+      return rule ? [{ index, name, values: new Set(rule.values) }] : [];
+    });
+  }
+
+  private checkRow(record: string[], row: number) {
+    const columns = this.columns!;
+
+    // Blank lines are ignored by ALA
+    if (record.length === 1 && record[0] === '') return;
+
+    if (record.length !== columns.length) {
+      this.issues.add({
+        severity: 'error',
+        code: 'RAGGED_ROW',
+        message: `Expected ${columns.length} columns but found ${record.length}`,
+        row,
+      });
+    }
+
+    record.forEach((value, column) => {
+      if (value.includes(REPLACEMENT_CHARACTER)) {
+        this.issues.add({
+          severity: 'error',
+          code: 'INVALID_UTF8',
+          message: 'Contains bytes that are not valid UTF-8',
+          row,
+          column: column + 1,
+        });
+      }
+    });
+
+    if (
+      this.scientificNameIndex >= 0 &&
+      !record[this.scientificNameIndex]?.trim()
+    ) {
+      this.issues.add({
+        severity: 'error',
+        code: 'EMPTY_SCIENTIFIC_NAME',
+        message: 'Row has an empty `scientificName`',
+        row,
+        column: this.scientificNameIndex + 1,
+      });
+    }
+
+    for (const { index: column, name, values } of this.restrictedColumns) {
+      const value = record[column]?.trim();
+      if (value && !values.has(value)) {
+        this.issues.add({
+          severity: 'error',
+          code: 'INVALID_VALUE',
+          message: `Value \`${value}\` is not allowed in \`${name}\``,
+          row,
+          column: column + 1,
+        });
+      }
+    }
+
+    const key = createHash('sha1')
+      .update(record.join('\u0000'))
+      .digest('base64');
+    const firstRow = this.seenRows.get(key);
+    if (firstRow) {
+      this.issues.add({
+        severity: 'warning',
+        code: 'DUPLICATE_ROW',
+        message: `Duplicate of row ${firstRow}`,
+        row,
+      });
+    } else {
+      this.seenRows.set(key, row);
+    }
+  }
+
+  finish(parseIssues: IssueLog): ValidationReport {
+    const columns = this.columns || [];
+
+    if (!this.hasHeader) {
+      parseIssues.add({
+        severity: 'error',
+        code: 'EMPTY_FILE',
+        message: 'The file has no header row',
+      });
+      return {
+        valid: false,
+        rowCount: 0,
+        columns,
+        issues: parseIssues.issues,
+        issueCounts: Object.fromEntries(parseIssues.counts),
+      };
+    }
+
+    const issues = [...parseIssues.issues, ...this.issues.issues];
+    return {
+      valid: !issues.some((issue) => issue.severity === 'error'),
+      rowCount: this.rowCount,
+      columns,
+      issues,
+      issueCounts: Object.fromEntries([
+        ...parseIssues.counts,
+        ...this.issues.counts,
+      ]),
+    };
+  }
+}
+
+/**
+ * Validates CSV content before it is uploaded to the ALA Lists API
+ *
+ * @param content - The decoded CSV file content
+ * @param schema - The declared schema for the list
+ */
+export function validateCsv(
+  content: string,
+  schema: ListSchema = defaultSchema
+): ValidationReport {
+  const validator = new CsvValidator(schema);
+  const parser = new CsvParser((record) => validator.addRecord(record));
+  parser.write(content);
+  parser.end();
+
+  return validator.finish(parser.issues);
+}
+
+/**
+ * Pass-through stream that validates CSV bytes as they flow to the next stage,
+ * with the report available once the stream has finished
+ */
+export class CsvValidationStream extends Transform {
+  report: ValidationReport | null = null;
+
+  private readonly decoder = new StringDecoder('utf8');
+  private readonly validator: CsvValidator;
+  private readonly parser: CsvParser;
+
+  constructor(schema: ListSchema = defaultSchema) {
+    super();
+    this.validator = new CsvValidator(schema);
+    this.parser = new CsvParser((record) => this.validator.addRecord(record));
+  }
+
+  _transform(
+    chunk: Buffer,
+    encoding: BufferEncoding,
+    callback: TransformCallback
+  ) {
+    this.parser.write(this.decoder.write(chunk));
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback) {
+    this.parser.write(this.decoder.end());
+    this.parser.end();
+    this.report = this.validator.finish(this.parser.issues);
+    callback();
+  }
+}
+
+/**
+ * Validates a CSV stream without holding the whole file in memory
+ */
+export async function validateCsvStream(
+  source: CsvSource,
+  schema: ListSchema = defaultSchema
+): Promise<ValidationReport> {
+  const validation = new CsvValidationStream(schema);
+  await pipeline(
+    toCsvStream(source),
+    validation,
+    new Writable({
+      write: (chunk, encoding, callback) => callback(),
+    })
+  );
+  return validation.report!;
+}
+
+// Helper function to format a single issue location
+function formatLocation(issue: ValidationIssue): string {
+  if (issue.row && issue.column) {
+    return `row ${issue.row}, column ${issue.column}`;
+  }
+  return issue.row ? `row ${issue.row}` : 'file';
+}
+
+/**
+ * Formats a validation report as Slack message lines, grouping issues by code
+ */
+export function formatValidationReport(
+  report: ValidationReport,
+  maxIssuesPerCode: number = 5
+): string[] {
+  const byCode = new Map<string, ValidationIssue[]>();
+  for (const issue of report.issues) {
+    const issues = byCode.get(issue.code);
+    if (issues) {
+      issues.push(issue);
+    } else {
+      byCode.set(issue.code, [issue]);
+    }
+  }
+
+  // Totals include the issues that were counted but not kept
+  const count = (code: string) => report.issueCounts[code];
+  const codes = (severity: ValidationSeverity) =>
+    [...byCode.keys()].filter(
+      (code) => byCode.get(code)![0].severity === severity
+    );
+  const errors = codes('error');
+  const warnings = codes('warning');
+  const errorCount = errors.reduce((total, code) => total + count(code), 0);
+  const warningCount = warnings.reduce((total, code) => total + count(code), 0);
+
+  const lines = [
+    report.valid
+      ? `🔎  Validation passed: ${report.rowCount} rows, ${report.columns.length} columns, ${warningCount} warning(s)`
+      : `🔎  Validation failed: ${errorCount} error(s), ${warningCount} warning(s) in ${report.rowCount} rows`,
+  ];
+
+  for (const code of [...errors, ...warnings]) {
+    const issues = byCode.get(code)!;
+    const total = count(code);
+    const icon = issues[0].severity === 'error' ? '❌' : '⚠️';
+    lines.push(`${icon}  *${code}* (${total})`);
+    for (const issue of issues.slice(0, maxIssuesPerCode)) {
+      lines.push(`• ${formatLocation(issue)}: ${issue.message}`);
+    }
+    if (total > maxIssuesPerCode) {
+      lines.push(`• ...and ${total - maxIssuesPerCode} more`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,165 @@
+import { AlaListsClient, ProgressResponse } from './ala.js';
+import { ValidationSeverity } from './validation.js';
+
+export interface VerificationIssue {
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+}
+
+// What ALA should hold once an ingestion finishes, recorded before it starts
+export interface IngestionBaseline {
+  // List version before the ingestion, ALA bumps it on every reload
+  previousVersion: number;
+  // Rows ALA counted in the uploaded file
+  uploadedRowCount: number;
+  // SHA-256 of the uploaded CSV, to tell whether a file in git was loaded
+  contentHash?: string;
+}
+
+export interface VerificationReport {
+  verified: boolean;
+  version: number;
+  rowCount: number;
+  // Sampled scientific names, and those ALA's name matching didn't resolve
+  sampledNames: number;
+  unmatchedNames: string[];
+  issues: VerificationIssue[];
+}
+
+// Rows sampled from the list to check name matching
+const NAME_SAMPLE_SIZE = 25;
+
+/**
+ * Error thrown when ALA does not hold what was uploaded after an ingestion
+ */
+export class VerificationError extends Error {
+  constructor(public readonly report: VerificationReport) {
+    super(formatVerificationReport(report).join('\n'));
+    this.name = 'VerificationError';
+  }
+}
+
+// Helper function to sample a random page of a list's rows, returning the
+// scientific names that did not resolve to a taxon
+async function sampleNameMatching(
+  client: AlaListsClient,
+  speciesListID: string,
+  rowCount: number
+): Promise<{ sampled: number; unmatched: string[] }> {
+  const pages = Math.max(Math.ceil(rowCount / NAME_SAMPLE_SIZE), 1);
+  const page = 1 + Math.floor(Math.random() * pages);
+  const items = await client.getListItems(
+    speciesListID,
+    page,
+    NAME_SAMPLE_SIZE
+  );
+
+  return {
+    sampled: items.length,
+    unmatched: items
+      .filter((item) => !item.classification?.taxonConceptID)
+      .map((item) => item.scientificName),
+  };
+}
+
+/**
+ * Checks that a finished ingestion left ALA holding the uploaded file: the
+ * list version went up, the row counts agree between the upload, MongoDB and
+ * Elasticsearch, and a sample of names resolved in ALA's name matching
+ */
+export async function verifyIngestion(
+  client: AlaListsClient,
+  dataResourceUid: string,
+  baseline: IngestionBaseline,
+  progress: ProgressResponse
+): Promise<VerificationReport> {
+  const issues: VerificationIssue[] = [];
+  const list = await client.getSpeciesList(dataResourceUid);
+
+  if (list.version <= baseline.previousVersion) {
+    issues.push({
+      severity: 'error',
+      code: 'VERSION_NOT_INCREASED',
+      message: `List version is still ${list.version}, expected it to go up from ${baseline.previousVersion}`,
+    });
+  }
+
+  if (list.rowCount !== baseline.uploadedRowCount) {
+    issues.push({
+      severity: 'error',
+      code: 'ROW_COUNT_MISMATCH',
+      message: `ALA holds ${list.rowCount} rows but ${baseline.uploadedRowCount} were uploaded`,
+    });
+  }
+
+  if (progress.mongoTotal !== progress.elasticTotal) {
+    issues.push({
+      severity: 'warning',
+      code: 'INDEX_COUNT_MISMATCH',
+      message: `MongoDB holds ${progress.mongoTotal} rows but Elasticsearch indexed ${progress.elasticTotal}, searches may miss rows`,
+    });
+  }
+
+  let sampledNames = 0;
+  let unmatchedNames: string[] = [];
+  if (list.rowCount > 0) {
+    try {
+      const sample = await sampleNameMatching(client, list.id, list.rowCount);
+      sampledNames = sample.sampled;
+      unmatchedNames = sample.unmatched;
+    } catch (error) {
+      issues.push({
+        severity: 'warning',
+        code: 'NAME_SAMPLE_FAILED',
+        message: `Could not sample names from ALA: ${error}`,
+      });
+    }
+  }
+
+  if (unmatchedNames.length > 0) {
+    // No names resolving at all points at name matching itself, not the file
+    issues.push({
+      severity: unmatchedNames.length === sampledNames ? 'error' : 'warning',
+      code: 'UNMATCHED_NAMES',
+      message: `${
+        unmatchedNames.length
+      } of ${sampledNames} sampled names did not match a taxon: ${unmatchedNames
+        .slice(0, 5)
+        .map((name) => `\`${name}\``)
+        .join(', ')}${unmatchedNames.length > 5 ? ', ...' : ''}`,
+    });
+  }
+
+  return {
+    verified: !issues.some((issue) => issue.severity === 'error'),
+    version: list.version,
+    rowCount: list.rowCount,
+    sampledNames,
+    unmatchedNames,
+    issues,
+  };
+}
+
+/**
+ * Formats a verification report for Slack
+ */
+export function formatVerificationReport(report: VerificationReport): string[] {
+  const errors = report.issues.filter((issue) => issue.severity === 'error');
+  const warnings = report.issues.filter(
+    (issue) => issue.severity === 'warning'
+  );
+  const matched = report.sampledNames - report.unmatchedNames.length;
+
+  return [
+    report.verified
+      ? `🔬  Verified in ALA: version ${report.version}, ${report.rowCount} rows, ${matched}/${report.sampledNames} sampled names matched, ${warnings.length} warning(s)`
+      : `🔬  Verification failed: ${errors.length} error(s), ${warnings.length} warning(s)`,
+    ...[...errors, ...warnings].map(
+      (issue) =>
+        `${issue.severity === 'error' ? '❌' : '⚠️'}  *${issue.code}*: ${
+          issue.message
+        }`
+    ),
+  ];
+}